@@ -4,6 +4,7 @@ import android.app.Activity
 import android.os.Handler
 import android.os.Looper
 import android.util.Log
+import android.view.Gravity
 import android.webkit.CookieManager
 import com.facebook.fbreact.specs.NativeCmSdkReactNativeV3Spec
 import java.lang.ref.WeakReference
@@ -20,6 +21,7 @@ import com.facebook.react.bridge.WritableMap
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.launch
+import kotlin.math.roundToInt
 import net.consentmanager.cm_sdk_android_v3.CMPManager
 import net.consentmanager.cm_sdk_android_v3.CMPManagerDelegate
 import net.consentmanager.cm_sdk_android_v3.ConsentLayerUIConfig
@@ -49,6 +51,7 @@ private object ErrorCodes {
   const val INIT_ERROR = "E_INIT_ERROR"
   const val STATUS_ERROR = "E_STATUS_ERROR"
   const val IMPORT_ERROR = "E_IMPORT_ERROR"
+  const val NOT_AVAILABLE = "E_NOT_AVAILABLE"
 }
 
 class CmSdkReactNativeV3Module(reactContext: ReactApplicationContext) :
@@ -134,12 +137,11 @@ class CmSdkReactNativeV3Module(reactContext: ReactApplicationContext) :
           "fullScreen" -> ConsentLayerUIConfig.Position.FULL_SCREEN
           "halfScreenBottom" -> ConsentLayerUIConfig.Position.HALF_SCREEN_BOTTOM
           "halfScreenTop" -> ConsentLayerUIConfig.Position.HALF_SCREEN_TOP
-          "custom" -> {
-            logWarning("Android SDK ignores custom position/customRect; falling back to fullScreen.")
-            ConsentLayerUIConfig.Position.FULL_SCREEN
-          }
+          "custom" -> ConsentLayerUIConfig.Position.CUSTOM
           else -> ConsentLayerUIConfig.Position.FULL_SCREEN
         }
+        val customLayout =
+          if (position == ConsentLayerUIConfig.Position.CUSTOM) mapCustomLayout(config) else null
 
         val cornerRadiusDp = if (config.hasKey("cornerRadius")) config.getDouble("cornerRadius").toFloat() else 5f
         val cornerRadius = dpToPx(cornerRadiusDp)
@@ -152,7 +154,10 @@ class CmSdkReactNativeV3Module(reactContext: ReactApplicationContext) :
           isCancelable = false,
           allowsOrientationChanges = if (config.hasKey("allowsOrientationChanges")) config.getBoolean("allowsOrientationChanges") else true,
           darkMode = if (config.hasKey("darkMode")) config.getBoolean("darkMode") else false,
-          navigationBarColor = readOptionalColor(config, "navigationBarColor")
+          navigationBarColor = readOptionalColor(config, "navigationBarColor"),
+          customWidth = customLayout?.let { dpToPx(it.width.toFloat()).roundToInt() },
+          customHeight = customLayout?.let { dpToPx(it.height.toFloat()).roundToInt() },
+          gravity = customLayout?.gravity ?: Gravity.CENTER
         )
 
         promise.resolve(null)
@@ -215,6 +220,7 @@ class CmSdkReactNativeV3Module(reactContext: ReactApplicationContext) :
       }
       sendEvent("onClickLink", params)
 
+      // Keep in sync with isOpenedByWebView in src/linkHandling.ts.
       when {
         !url.contains("google.com") -> true
         url.contains("privacy") || url.contains("terms") -> true
@@ -289,6 +295,24 @@ class CmSdkReactNativeV3Module(reactContext: ReactApplicationContext) :
     }
   }
 
+  /**
+   * Translates the RN `customRect` (dp, origin-based) into the SDK's size and
+   * gravity model; see [customRectToLayout].
+   */
+  private fun mapCustomLayout(config: ReadableMap): CustomLayout {
+    val rect = if (config.hasKey("customRect") && !config.isNull("customRect")) config.getMap("customRect") else null
+    rect ?: throw IllegalArgumentException("customRect is required when position is \"custom\"")
+    val metrics = reactApplicationContext.resources.displayMetrics
+    return customRectToLayout(
+      x = rect.getDouble("x"),
+      y = rect.getDouble("y"),
+      width = rect.getDouble("width"),
+      height = rect.getDouble("height"),
+      screenWidth = metrics.widthPixels / metrics.density.toDouble(),
+      screenHeight = metrics.heightPixels / metrics.density.toDouble()
+    )
+  }
+
   private fun dpToPx(dp: Float): Float {
     val metrics = reactApplicationContext.resources.displayMetrics
     return android.util.TypedValue.applyDimension(android.util.TypedValue.COMPLEX_UNIT_DIP, dp, metrics)
@@ -603,27 +627,27 @@ class CmSdkReactNativeV3Module(reactContext: ReactApplicationContext) :
 
   @ReactMethod
   override fun configureAutomaticFirebaseConsentUpdates(enabled: Boolean, promise: Promise) {
-    promise.reject(ErrorCodes.CONFIG_ERROR, "configureAutomaticFirebaseConsentUpdates is only available on iOS.")
+    promise.reject(ErrorCodes.NOT_AVAILABLE, "configureAutomaticFirebaseConsentUpdates is only available on iOS.")
   }
 
   @ReactMethod
   override fun setAutomaticFirebaseConsentUpdatesEnabled(enabled: Boolean, promise: Promise) {
-    promise.reject(ErrorCodes.CONFIG_ERROR, "setAutomaticFirebaseConsentUpdatesEnabled is only available on iOS.")
+    promise.reject(ErrorCodes.NOT_AVAILABLE, "setAutomaticFirebaseConsentUpdatesEnabled is only available on iOS.")
   }
 
   @ReactMethod
   override fun isAutomaticFirebaseConsentUpdatesEnabled(promise: Promise) {
-    promise.reject(ErrorCodes.CONFIG_ERROR, "isAutomaticFirebaseConsentUpdatesEnabled is only available on iOS.")
+    promise.reject(ErrorCodes.NOT_AVAILABLE, "isAutomaticFirebaseConsentUpdatesEnabled is only available on iOS.")
   }
 
   @ReactMethod
   override fun updateFirebaseConsent(promise: Promise) {
-    promise.reject(ErrorCodes.CONFIG_ERROR, "updateFirebaseConsent is only available on iOS.")
+    promise.reject(ErrorCodes.NOT_AVAILABLE, "updateFirebaseConsent is only available on iOS.")
   }
 
   @ReactMethod
   override fun isFirebaseAnalyticsAvailable(promise: Promise) {
-    promise.reject(ErrorCodes.CONFIG_ERROR, "isFirebaseAnalyticsAvailable is only available on iOS.")
+    promise.reject(ErrorCodes.NOT_AVAILABLE, "isFirebaseAnalyticsAvailable is only available on iOS.")
   }
   private fun ReadableArray.toListOfStrings(): List<String> {
     val list = mutableListOf<String>()
@@ -0,0 +1,44 @@
+package com.cmsdkreactnativev3
+
+import android.view.Gravity
+
+/**
+ * Size and placement of a custom consent layer in the Android SDK's model.
+ * Width and height are in the same unit as the rect they were derived from.
+ */
+internal data class CustomLayout(val width: Double, val height: Double, val gravity: Int)
+
+/**
+ * The Android SDK sizes a custom layer by width/height and places it by gravity
+ * instead of an origin, so the RN `customRect` keeps its size and its origin is
+ * translated into the nearest alignment on each axis: start, center or end.
+ */
+internal fun customRectToLayout(
+  x: Double,
+  y: Double,
+  width: Double,
+  height: Double,
+  screenWidth: Double,
+  screenHeight: Double
+): CustomLayout {
+  val clampedWidth = width.coerceIn(0.0, screenWidth)
+  val clampedHeight = height.coerceIn(0.0, screenHeight)
+  val horizontal = nearestAlignment(
+    x, screenWidth - x - clampedWidth,
+    Gravity.START, Gravity.CENTER_HORIZONTAL, Gravity.END
+  )
+  val vertical = nearestAlignment(
+    y, screenHeight - y - clampedHeight,
+    Gravity.TOP, Gravity.CENTER_VERTICAL, Gravity.BOTTOM
+  )
+  return CustomLayout(clampedWidth, clampedHeight, horizontal or vertical)
+}
+
+private fun nearestAlignment(leading: Double, trailing: Double, start: Int, center: Int, end: Int): Int {
+  val toCenter = Math.abs(leading - trailing) / 2
+  return when {
+    toCenter <= leading && toCenter <= trailing -> center
+    leading < trailing -> start
+    else -> end
+  }
+}
@@ -0,0 +1,32 @@
+package com.cmsdkreactnativev3
+
+import android.view.Gravity
+import org.junit.Assert.assertEquals
+import org.junit.Test
+
+class CustomLayoutTest {
+  @Test
+  fun centersACenteredCard() {
+    val layout = customRectToLayout(16.0, 120.0, 368.0, 560.0, 400.0, 800.0)
+    assertEquals(CustomLayout(368.0, 560.0, Gravity.CENTER_HORIZONTAL or Gravity.CENTER_VERTICAL), layout)
+  }
+
+  @Test
+  fun anchorsABottomSheetToTheBottom() {
+    val layout = customRectToLayout(0.0, 400.0, 400.0, 400.0, 400.0, 800.0)
+    assertEquals(Gravity.CENTER_HORIZONTAL or Gravity.BOTTOM, layout.gravity)
+  }
+
+  @Test
+  fun anchorsToTheNearestCorner() {
+    val layout = customRectToLayout(8.0, 20.0, 200.0, 300.0, 400.0, 800.0)
+    assertEquals(Gravity.START or Gravity.TOP, layout.gravity)
+  }
+
+  @Test
+  fun clampsARectLargerThanTheScreen() {
+    val layout = customRectToLayout(0.0, 0.0, 500.0, 900.0, 400.0, 800.0)
+    assertEquals(400.0, layout.width, 0.0)
+    assertEquals(800.0, layout.height, 0.0)
+  }
+}
@@ -12,7 +12,10 @@ import {
   Platform,
 } from 'react-native';
 import type { EmitterSubscription } from 'react-native';
-import CmSdkReactNativeV3, {
+import {
+  acceptAll,
+  acceptPurposes,
+  acceptVendors,
   addConsentListener,
   addShowConsentLayerListener,
   addCloseConsentLayerListener,
@@ -21,12 +24,25 @@ import CmSdkReactNativeV3, {
   BackgroundStyle,
   ATTStatus,
   WebViewPosition,
+  checkAndOpen,
+  exportCMPInfo,
+  forceOpen,
+  getGoogleConsentModeStatus,
+  getStatusForPurpose,
+  getStatusForVendor,
+  getUserStatus,
+  rejectAll,
+  rejectPurposes,
+  rejectVendors,
+  resetConsentManagementData,
   type ConsentResolution,
   type UrlConfig,
   type WebViewConfig,
   isNewArchitectureEnabled,
   isTurboModuleEnabled,
+  initialize,
   isConsentRequired,
+  onCallComplete,
   resolveConsent,
 } from 'cm-sdk-react-native-v3-new-arch';
 
@@ -185,6 +201,14 @@ const HomeScreen: React.FC = () => {
     };
   }, [showToast]);
 
+  // Latest latency of every native call, measured by the SDK itself
+  useEffect(() => {
+    const subscription = onCallComplete(({ method, durationMs }) => {
+      setPerformanceMetrics((prev) => ({ ...prev, [method]: durationMs }));
+    });
+    return () => subscription.remove();
+  }, []);
+
   // =============================================================================
   // Architecture Detection
   // =============================================================================
@@ -219,12 +243,13 @@ const HomeScreen: React.FC = () => {
   // =============================================================================
   const initializeConsent = useCallback(async () => {
     try {
-      await CmSdkReactNativeV3.setWebViewConfig(DEFAULT_WEBVIEW_CONFIG);
-      await CmSdkReactNativeV3.setUrlConfig(CMP_CONFIG);
-
-      if (Platform.OS === 'ios') {
-        await CmSdkReactNativeV3.setATTStatus(ATTStatus.NotDetermined);
-      }
+      // Applies the WebView config, the ATT status (iOS only) and the URL
+      // config in order; consent calls wait for it or reject until it ran.
+      await initialize({
+        urlConfig: CMP_CONFIG,
+        webViewConfig: DEFAULT_WEBVIEW_CONFIG,
+        attStatus: ATTStatus.NotDetermined,
+      });
 
       // Start resolving now but keep the promise instead of awaiting it, so the
       // CMP round trip overlaps with the rest of startup rather than holding the
@@ -258,7 +283,6 @@ const HomeScreen: React.FC = () => {
         const duration = Date.now() - startTime;
 
         if (methodName) {
-          setPerformanceMetrics((prev) => ({ ...prev, [methodName]: duration }));
           setEventLog((prev) => [
             ...prev,
             `⚡ ${methodName}: ${duration}ms (${architectureInfo.type})`,
@@ -288,7 +312,7 @@ const HomeScreen: React.FC = () => {
       title: 'Get User Status',
       onPress: () =>
         handleApiCall(
-          CmSdkReactNativeV3.getUserStatus,
+          getUserStatus,
           (r) => `Status: ${JSON.stringify(r).substring(0, 100)}...`,
           'Failed to get user status',
           'getUserStatus'
@@ -321,7 +345,7 @@ const HomeScreen: React.FC = () => {
       title: 'Get CMP String',
       onPress: () =>
         handleApiCall(
-          CmSdkReactNativeV3.exportCMPInfo,
+          exportCMPInfo,
           (r) => `CMP: ${r}`,
           'Failed to export CMP',
           'exportCMPInfo'
@@ -331,7 +355,7 @@ const HomeScreen: React.FC = () => {
       title: 'Get Status for Purpose c54',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.getStatusForPurpose('c54'),
+          () => getStatusForPurpose('c54'),
           (r) => `Purpose: ${r}`,
           'Failed',
           'getStatusForPurpose'
@@ -341,7 +365,7 @@ const HomeScreen: React.FC = () => {
       title: 'Get Status for Vendor s2612',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.getStatusForVendor('s2612'),
+          () => getStatusForVendor('s2612'),
           (r) => `Vendor: ${r}`,
           'Failed',
           'getStatusForVendor'
@@ -351,7 +375,7 @@ const HomeScreen: React.FC = () => {
       title: 'Google Consent Mode',
       onPress: () =>
         handleApiCall(
-          CmSdkReactNativeV3.getGoogleConsentModeStatus,
+          getGoogleConsentModeStatus,
           (r) => `GCM: ${JSON.stringify(r)}`,
           'Failed',
           'getGoogleConsentModeStatus'
@@ -361,7 +385,7 @@ const HomeScreen: React.FC = () => {
       title: 'Accept Purposes c52, c54',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.acceptPurposes(['c52', 'c54'], true),
+          () => acceptPurposes(['c52', 'c54'], true),
           () => 'Purposes accepted',
           'Failed',
           'acceptPurposes'
@@ -371,7 +395,7 @@ const HomeScreen: React.FC = () => {
       title: 'Reject Purposes c52, c54',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.rejectPurposes(['c52', 'c54'], true),
+          () => rejectPurposes(['c52', 'c54'], true),
           () => 'Purposes rejected',
           'Failed',
           'rejectPurposes'
@@ -381,7 +405,7 @@ const HomeScreen: React.FC = () => {
       title: 'Accept Vendors s2790 and s2791',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.acceptVendors(['s2790', 's2791']),
+          () => acceptVendors(['s2790', 's2791']),
           () => 'Vendors accepted',
           'Failed',
           'acceptVendors'
@@ -391,7 +415,7 @@ const HomeScreen: React.FC = () => {
       title: 'Reject Vendors s2790 and s2791',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.rejectVendors(['s2790', 's2791']),
+          () => rejectVendors(['s2790', 's2791']),
           () => 'Vendors rejected',
           'Failed',
           'rejectVendors'
@@ -400,28 +424,18 @@ const HomeScreen: React.FC = () => {
     {
       title: 'Reject All',
       onPress: () =>
-        handleApiCall(
-          CmSdkReactNativeV3.rejectAll,
-          () => 'All rejected',
-          'Failed',
-          'rejectAll'
-        ),
+        handleApiCall(rejectAll, () => 'All rejected', 'Failed', 'rejectAll'),
     },
     {
       title: 'Accept All',
       onPress: () =>
-        handleApiCall(
-          CmSdkReactNativeV3.acceptAll,
-          () => 'All accepted',
-          'Failed',
-          'acceptAll'
-        ),
+        handleApiCall(acceptAll, () => 'All accepted', 'Failed', 'acceptAll'),
     },
     {
       title: 'Check and Open Consent Layer',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.checkAndOpen(false),
+          () => checkAndOpen(false),
           () => 'Check completed'
         ),
     },
@@ -429,7 +443,7 @@ const HomeScreen: React.FC = () => {
       title: 'Check and Open Settings Page',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.checkAndOpen(true),
+          () => checkAndOpen(true),
           () => 'Settings opened'
         ),
     },
@@ -437,7 +451,7 @@ const HomeScreen: React.FC = () => {
       title: 'Force Open Consent Layer',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.forceOpen(false),
+          () => forceOpen(false),
           () => 'Layer opened'
         ),
     },
@@ -445,14 +459,14 @@ const HomeScreen: React.FC = () => {
       title: 'Force Open Settings Page',
       onPress: () =>
         handleApiCall(
-          () => CmSdkReactNativeV3.forceOpen(true),
+          () => forceOpen(true),
           () => 'Settings opened'
         ),
     },
     {
       title: 'Reset CMP Data',
       onPress: () =>
-        handleApiCall(CmSdkReactNativeV3.resetConsentManagementData, () => {
+        handleApiCall(resetConsentManagementData, () => {
           // Boot-time promise is stale after a wipe; kick a fresh resolution.
           consentResolutionRef.current = resolveConsent();
           return 'Data reset';
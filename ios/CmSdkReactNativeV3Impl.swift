@@ -19,6 +19,19 @@ private func CMPLog(_ message: String, file: String = #file, function: String =
   #endif
 }
 
+// MARK: - Error Codes
+
+/// Promise rejection codes. Must match `ErrorCodes` in the Android module so JS
+/// sees the same code for the same failure on both platforms.
+private enum ErrorCodes {
+  static let configError = "E_CONFIG_ERROR"
+  static let consentError = "E_CONSENT_ERROR"
+  static let initError = "E_INIT_ERROR"
+  static let statusError = "E_STATUS_ERROR"
+  static let importError = "E_IMPORT_ERROR"
+  static let notAvailable = "E_NOT_AVAILABLE"
+}
+
 // MARK: - Implementation
 
 @objc(CmSdkReactNativeV3Impl)
@@ -47,6 +60,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
       CMPLog("Link clicked: \(urlString)")
       strongSelf.sendEvent(name: "onClickLink", body: ["url": urlString])
       
+      // Keep in sync with isOpenedByWebView in src/linkHandling.ts.
       if !urlString.contains("google.com") ||
          urlString.contains("privacy") ||
          urlString.contains("terms") {
@@ -167,7 +181,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
         self.cmpManager.setUrlConfig(urlConfig)
         resolve(nil)
           } catch {
-              reject("ERROR", "Failed to set URL config: \(error.localizedDescription)", error)
+              reject(ErrorCodes.configError, "Failed to set URL config: \(error.localizedDescription)", error)
           }
       }
   }
@@ -198,7 +212,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
   func isConsentRequired(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
     cmpManager.isConsentRequired { isRequired, error in
       if let error = error {
-        reject("ERROR", "Failed to check if consent is required: \(error.localizedDescription)", error)
+        reject(ErrorCodes.consentError, "Failed to check if consent is required: \(error.localizedDescription)", error)
       } else {
         resolve(isRequired)
       }
@@ -235,7 +249,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
 
         self.cmpManager.checkAndOpen(jumpToSettings: jumpToSettings) { error in
             if let error = error {
-                reject("ERROR", "Failed to check and open: \(error.localizedDescription)", error)
+                reject(ErrorCodes.consentError, "Failed to check and open: \(error.localizedDescription)", error)
             } else {
                 resolve(true)
             }
@@ -255,7 +269,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
 
         self.cmpManager.forceOpen(jumpToSettings: jumpToSettings) { error in
             if let error = error {
-                reject("ERROR", "Failed to force open: \(error.localizedDescription)", error)
+                reject(ErrorCodes.consentError, "Failed to force open: \(error.localizedDescription)", error)
             } else {
                 resolve(true)
             }
@@ -301,7 +315,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
   func rejectAll(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
     self.cmpManager.rejectAll { error in
        if let error = error {
-           reject("ERROR", "Failed to reject all: \(error.localizedDescription)", error)
+           reject(ErrorCodes.consentError, "Failed to reject all: \(error.localizedDescription)", error)
        } else {
            resolve(true)
        }
@@ -312,7 +326,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
   func acceptAll(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
     self.cmpManager.acceptAll { error in
       if let error = error {
-         reject("ERROR", "Failed to accept all: \(error.localizedDescription)", error)
+         reject(ErrorCodes.consentError, "Failed to accept all: \(error.localizedDescription)", error)
       } else {
          resolve(true)
       }
@@ -323,7 +337,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
   func importCMPInfo(_ cmpString: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
       self.cmpManager.importCMPInfo(cmpString) { error in
          if let error = error {
-             reject("ERROR", "Failed to import CMP info: \(error.localizedDescription)", error)
+             reject(ErrorCodes.importError, "Failed to import CMP info: \(error.localizedDescription)", error)
          } else {
              resolve(true)
          }
@@ -334,7 +348,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
   func resetConsentManagementData(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
       self.cmpManager.resetConsentManagementData { error in
         if let error = error {
-          reject("ERROR", "Failed to reset consent management data: \(error.localizedDescription)", error)
+          reject(ErrorCodes.consentError, "Failed to reset consent management data: \(error.localizedDescription)", error)
           return
         }
 
@@ -346,12 +360,12 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
 
   @objc
   func setAutomaticConsentUpdatesEnabled(_ enabled: Bool, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-    reject("ERROR", "setAutomaticConsentUpdatesEnabled is only available on Android.", nil)
+    reject(ErrorCodes.notAvailable, "setAutomaticConsentUpdatesEnabled is only available on Android.", nil)
   }
 
   @objc
   func updateThirdPartyConsent(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-    reject("ERROR", "updateThirdPartyConsent is only available on Android.", nil)
+    reject(ErrorCodes.notAvailable, "updateThirdPartyConsent is only available on Android.", nil)
   }
 
   @objc
@@ -537,7 +551,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
     reject: @escaping RCTPromiseRejectBlock
   ) {
     if let error = error {
-      reject("ERROR", "\(failurePrefix): \(error.localizedDescription)", error)
+      reject(ErrorCodes.consentError, "\(failurePrefix): \(error.localizedDescription)", error)
     } else {
       resolve(true)
     }
@@ -550,7 +564,7 @@ class CmSdkReactNativeV3Impl: NSObject, CMPManagerDelegate {
   ) -> UIViewController? {
     guard let viewController = currentPresentingViewController() else {
       reject(
-        "ERROR",
+        ErrorCodes.initError,
         "No presenting view controller available. Wait until the app is active before calling \(methodName)().",
         nil
       )
@@ -0,0 +1,193 @@
+/**
+ * Declarative consent gating for analytics widgets, embeds and ad slots.
+ *
+ * `ConsentGate` reads `consentStore`, so it re-renders on every consent change
+ * and works with or without a `ConsentProvider` above it.
+ */
+
+import { useEffect, useSyncExternalStore, type ReactNode } from 'react';
+import {
+  Pressable,
+  Text,
+  View,
+  type StyleProp,
+  type TextStyle,
+  type ViewStyle,
+} from 'react-native';
+import { consentStore, forceOpen } from './core';
+import type { CmpError } from './errors';
+import { logWarning } from './logger';
+import type { UserStatus } from './NativeCmSdkReactNativeV3';
+
+/**
+ * Why a gate is closed, passed to a `fallback` render function.
+ */
+export type ConsentGateBlocked = {
+  /** Requested purposes that are not granted. */
+  missingPurposes: string[];
+  /** Requested vendors that are not granted. */
+  missingVendors: string[];
+  /** Opens the consent layer on its settings page (`forceOpen(true)`). */
+  requestConsent: () => Promise<boolean>;
+};
+
+export type ConsentGateProps = {
+  /** Purpose ids to check, e.g. `['c52']`. */
+  purposes?: string[];
+  /** Vendor ids to check, e.g. `['s2789']`. */
+  vendors?: string[];
+  /**
+   * `all` (default) requires every listed purpose and vendor to be granted,
+   * `any` requires at least one of them.
+   */
+  mode?: 'all' | 'any';
+  /** Rendered while consent is missing. Defaults to nothing. */
+  fallback?: ReactNode | ((blocked: ConsentGateBlocked) => ReactNode);
+  children?: ReactNode;
+};
+
+const requestConsent = () => forceOpen(true);
+
+const evaluate = (
+  status: UserStatus,
+  purposes: string[],
+  vendors: string[],
+  mode: 'all' | 'any'
+) => {
+  const missingPurposes = purposes.filter(
+    (id) => status.purposes[id] !== 'granted'
+  );
+  const missingVendors = vendors.filter(
+    (id) => status.vendors[id] !== 'granted'
+  );
+  const required = purposes.length + vendors.length;
+  const missing = missingPurposes.length + missingVendors.length;
+  const allowed =
+    required === 0 || (mode === 'all' ? missing === 0 : missing < required);
+
+  return { allowed, missingPurposes, missingVendors };
+};
+
+/**
+ * Renders its children only when the listed purposes and vendors are granted.
+ *
+ * Nothing is rendered until the first snapshot is available, so gated content
+ * never flashes before consent is known.
+ *
+ * @example
+ * ```tsx
+ * <ConsentGate
+ *   purposes={['c52']}
+ *   vendors={['s2789']}
+ *   fallback={<ConsentPlaceholder message="Videos need your consent." />}
+ * >
+ *   <VideoPlayer />
+ * </ConsentGate>
+ * ```
+ */
+export const ConsentGate = ({
+  purposes = [],
+  vendors = [],
+  mode = 'all',
+  fallback = null,
+  children,
+}: ConsentGateProps) => {
+  const status = useSyncExternalStore(
+    consentStore.subscribe,
+    consentStore.getSnapshot
+  );
+
+  useEffect(() => {
+    if (!consentStore.getSnapshot()) {
+      // Failures keep the gate closed; the error surfaces on the next read.
+      consentStore.refresh().catch(() => {});
+    }
+  }, []);
+
+  if (!status) return null;
+
+  const { allowed, missingPurposes, missingVendors } = evaluate(
+    status,
+    purposes,
+    vendors,
+    mode
+  );
+  if (allowed) return <>{children}</>;
+
+  return (
+    <>
+      {typeof fallback === 'function'
+        ? fallback({ missingPurposes, missingVendors, requestConsent })
+        : fallback}
+    </>
+  );
+};
+
+export type ConsentPlaceholderProps = {
+  /** Explains what is blocked. */
+  message?: string;
+  /** Label of the button that opens the consent settings. */
+  actionLabel?: string;
+  /**
+   * Called when the consent layer cannot be opened, e.g. `NOT_INITIALIZED`.
+   * Without it the failure is logged as a warning.
+   */
+  onError?: (error: CmpError) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Minimal placeholder for a `ConsentGate` fallback. Its button opens the
+ * consent layer on the settings page so the user can grant what is missing.
+ */
+export const ConsentPlaceholder = ({
+  message = 'This content requires your consent.',
+  actionLabel = 'Manage consent',
+  onError,
+  style,
+}: ConsentPlaceholderProps) => {
+  const onPress = () => {
+    requestConsent().catch((error: CmpError) => {
+      if (onError) onError(error);
+      else logWarning('Could not open the consent settings.', error);
+    });
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.message}>{message}</Text>
+      <Pressable
+        accessibilityRole="button"
+        onPress={onPress}
+        style={styles.button}
+      >
+        <Text style={styles.buttonText}>{actionLabel}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+// Plain objects rather than StyleSheet.create so importing the package never
+// touches native UI modules until the placeholder actually renders.
+const styles: Record<'container' | 'button', ViewStyle> &
+  Record<'message' | 'buttonText', TextStyle> = {
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  message: {
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#1f6feb',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+};
@@ -0,0 +1,224 @@
+/**
+ * React bindings for the consent state.
+ *
+ * `ConsentProvider` owns one resolution and reads the snapshot from
+ * `consentStore`, so screens read consent through hooks instead of wiring
+ * `resolveConsent` and the event listeners by hand.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react';
+import {
+  addCloseConsentLayerListener,
+  addConsentListener,
+  addShowConsentLayerListener,
+  checkAndOpen,
+  consentStore,
+  forceOpen,
+  resolveConsent,
+} from './core';
+import type {
+  ConsentStatusValue,
+  UserStatus,
+} from './NativeCmSdkReactNativeV3';
+
+/**
+ * Consent state exposed by `useConsent()`.
+ */
+export type ConsentState = {
+  /** Latest snapshot from `consentStore`, or `null` before the first read. */
+  userStatus: UserStatus | null;
+  /** Verdict of the last resolution, or `null` until it completed. */
+  consentRequired: boolean | null;
+  /** Regulation from the latest snapshot. Empty means unknown. */
+  regulation: string;
+  /** True while a resolution is in flight. */
+  loading: boolean;
+  /** Error of the last failed resolution, cleared by the next successful one. */
+  error: Error | null;
+  /** Runs a fresh resolution (`resolveConsent()`). */
+  refresh: () => Promise<void>;
+};
+
+/**
+ * Consent layer state exposed by `useConsentLayer()`.
+ */
+export type ConsentLayerState = {
+  /** True between `didShowConsentLayer` and `didCloseConsentLayer`. */
+  visible: boolean;
+  checkAndOpen: (jumpToSettings?: boolean) => Promise<boolean>;
+  forceOpen: (jumpToSettings?: boolean) => Promise<boolean>;
+};
+
+export type ConsentProviderProps = {
+  children?: ReactNode;
+  /**
+   * Resolve consent as soon as the provider mounts. Defaults to `true`.
+   * Set to `false` when `setUrlConfig` has not completed yet and call
+   * `refresh()` from `useConsent()` once it has.
+   */
+  autoResolve?: boolean;
+};
+
+type ContextValue = {
+  consent: ConsentState;
+  layer: ConsentLayerState;
+};
+
+const ConsentContext = createContext<ContextValue | null>(null);
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Provides consent state to `useConsent()`, `useConsentLayer()`,
+ * `usePurpose()` and `useVendor()`.
+ *
+ * On mount it runs a single `resolveConsent()`. When a `didReceiveConsent`
+ * event arrives `consentStore` reads one fresh snapshot instead of resolving
+ * again: the user just made a choice, so consent is no longer required.
+ *
+ * @example
+ * ```tsx
+ * await setUrlConfig(config);
+ *
+ * const Root = () => (
+ *   <ConsentProvider>
+ *     <App />
+ *   </ConsentProvider>
+ * );
+ * ```
+ */
+export const ConsentProvider = ({
+  children,
+  autoResolve = true,
+}: ConsentProviderProps) => {
+  const userStatus = useSyncExternalStore(
+    consentStore.subscribe,
+    consentStore.getSnapshot
+  );
+  const [consentRequired, setConsentRequired] = useState<boolean | null>(null);
+  const [loading, setLoading] = useState(autoResolve);
+  const [error, setError] = useState<Error | null>(null);
+  const [visible, setVisible] = useState(false);
+  // Only the latest resolution may update state; older ones finish into the void.
+  const latestResolution = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const resolutionId = ++latestResolution.current;
+    setLoading(true);
+    try {
+      const resolution = await resolveConsent();
+      if (resolutionId !== latestResolution.current) return;
+      setConsentRequired(resolution.consentRequired);
+      setError(null);
+    } catch (e) {
+      if (resolutionId !== latestResolution.current) return;
+      setError(toError(e));
+    } finally {
+      if (resolutionId === latestResolution.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const resolutions = latestResolution;
+    if (autoResolve) {
+      refresh();
+    }
+    return () => {
+      // Invalidate an in-flight resolution so it never lands after unmount.
+      resolutions.current++;
+    };
+  }, [autoResolve, refresh]);
+
+  useEffect(() => {
+    const subscriptions = [
+      addConsentListener(() => setConsentRequired(false)),
+      addShowConsentLayerListener(() => setVisible(true)),
+      addCloseConsentLayerListener(() => setVisible(false)),
+    ];
+    return () => subscriptions.forEach((subscription) => subscription.remove());
+  }, []);
+
+  const value = useMemo<ContextValue>(
+    () => ({
+      consent: {
+        userStatus,
+        consentRequired,
+        regulation: userStatus?.regulation ?? '',
+        loading,
+        error,
+        refresh,
+      },
+      layer: {
+        visible,
+        checkAndOpen: (jumpToSettings = false) => checkAndOpen(jumpToSettings),
+        forceOpen: (jumpToSettings = false) => forceOpen(jumpToSettings),
+      },
+    }),
+    [userStatus, consentRequired, loading, error, refresh, visible]
+  );
+
+  return (
+    <ConsentContext.Provider value={value}>{children}</ConsentContext.Provider>
+  );
+};
+
+const useConsentContext = (hookName: string): ContextValue => {
+  const context = useContext(ConsentContext);
+  if (!context) {
+    throw new Error(
+      `[cm-sdk-react-native-v3-new-arch] ${hookName} must be used within a ConsentProvider.`
+    );
+  }
+  return context;
+};
+
+/**
+ * Returns the current consent snapshot together with loading and error state.
+ */
+export const useConsent = (): ConsentState =>
+  useConsentContext('useConsent').consent;
+
+/**
+ * Returns whether the consent layer is visible and functions to open it.
+ */
+export const useConsentLayer = (): ConsentLayerState =>
+  useConsentContext('useConsentLayer').layer;
+
+/**
+ * Returns the status of one purpose from the current snapshot.
+ *
+ * @param purposeId - The purpose ID (e.g., 'c52')
+ * @returns The status, `'choiceDoesntExist'` when the snapshot has no entry,
+ * or `undefined` until the first snapshot is available
+ */
+export const usePurpose = (
+  purposeId: string
+): ConsentStatusValue | undefined => {
+  const { userStatus } = useConsentContext('usePurpose').consent;
+  if (!userStatus) return undefined;
+  return userStatus.purposes[purposeId] ?? 'choiceDoesntExist';
+};
+
+/**
+ * Returns the status of one vendor from the current snapshot.
+ *
+ * @param vendorId - The vendor ID (e.g., 's2789')
+ * @returns The status, `'choiceDoesntExist'` when the snapshot has no entry,
+ * or `undefined` until the first snapshot is available
+ */
+export const useVendor = (vendorId: string): ConsentStatusValue | undefined => {
+  const { userStatus } = useConsentContext('useVendor').consent;
+  if (!userStatus) return undefined;
+  return userStatus.vendors[vendorId] ?? 'choiceDoesntExist';
+};
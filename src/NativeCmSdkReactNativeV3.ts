@@ -79,7 +79,11 @@ export enum WebViewPosition {
 }
 
 /**
- * Custom rectangle for WebView positioning.
+ * Custom rectangle for WebView positioning, in density-independent pixels.
+ *
+ * On Android the native SDK places a custom layer by size and gravity, so the
+ * width and height are kept and the origin snaps to the nearest alignment on
+ * each axis (start, center or end).
  */
 export type WebViewRect = {
   x: number;
@@ -152,9 +156,15 @@ export type WebViewConfig = {
 };
 
 /**
- * Comprehensive user consent status information.
+ * Whether the user made a consent decision at all.
  */
-export type UserStatus = {
+export type UserChoiceStatus = 'choiceExists' | 'choiceDoesntExist';
+
+/**
+ * `UserStatus` as the native module resolves it, before the wrapper maps the
+ * status strings onto `UserChoiceStatus` and `ConsentStatusValue`.
+ */
+export type NativeUserStatus = {
   status: string;
   /** @deprecated Use `status`. Both platforms set this to the same value as `status`. */
   hasUserChoice?: string;
@@ -165,6 +175,20 @@ export type UserStatus = {
   regulation: string;
 };
 
+/**
+ * Comprehensive user consent status information.
+ */
+export type UserStatus = {
+  status: UserChoiceStatus;
+  /** @deprecated Use `status`. Both platforms set this to the same value as `status`. */
+  hasUserChoice?: UserChoiceStatus;
+  vendors: { [key: string]: ConsentStatusValue };
+  purposes: { [key: string]: ConsentStatusValue };
+  tcf: string;
+  addtlConsent: string;
+  regulation: string;
+};
+
 /**
  * Google Consent Mode v2 status object.
  * @see https://developers.google.com/tag-platform/security/guides/consent
@@ -226,7 +250,7 @@ export interface Spec extends TurboModule {
   forceOpen(jumpToSettings: boolean): Promise<boolean>;
 
   // Consent status methods
-  getUserStatus(): Promise<UserStatus>;
+  getUserStatus(): Promise<NativeUserStatus>;
   isConsentRequired(): Promise<boolean>;
 
   getStatusForPurpose(purposeId: string): Promise<string>;
@@ -1,4 +1,16 @@
 // Mock for react-native module
+//
+// Shared by every test file through `src/__tests__/setup.ts`. The state below
+// lives per module instance, so `jest.resetModules()` starts from a clean
+// slate: no listeners, the default native module, a light phone window.
+
+type Listener = (payload?: unknown) => void;
+type Window = {
+  width: number;
+  height: number;
+  scale: number;
+  fontScale: number;
+};
 
 export const mockNativeModule = {
   setUrlConfig: jest.fn().mockResolvedValue(undefined),
@@ -7,16 +19,16 @@ export const mockNativeModule = {
   checkAndOpen: jest.fn().mockResolvedValue(true),
   forceOpen: jest.fn().mockResolvedValue(true),
   getUserStatus: jest.fn().mockResolvedValue({
-    status: 'hasConsent',
-    vendors: { s123: 'accepted' },
-    purposes: { c52: 'rejected' },
+    status: 'choiceExists',
+    vendors: { s123: 'granted' },
+    purposes: { c52: 'denied' },
     tcf: 'test-tcf-string',
     addtlConsent: '1~',
-    regulation: 'gdpr',
+    regulation: 'GDPR',
   }),
   isConsentRequired: jest.fn().mockResolvedValue(true),
-  getStatusForPurpose: jest.fn().mockResolvedValue('accepted'),
-  getStatusForVendor: jest.fn().mockResolvedValue('rejected'),
+  getStatusForPurpose: jest.fn().mockResolvedValue('denied'),
+  getStatusForVendor: jest.fn().mockResolvedValue('granted'),
   getGoogleConsentModeStatus: jest.fn().mockResolvedValue({
     ad_storage: 'granted',
     analytics_storage: 'denied',
@@ -34,9 +46,31 @@ export const mockNativeModule = {
   removeListeners: jest.fn(),
 };
 
+const listeners: Record<string, Listener[]> = {};
+let registered: unknown = mockNativeModule;
+
+const emit = (name: string, payload?: unknown) =>
+  [...(listeners[name] ?? [])].forEach((handler) => handler(payload));
+
+const addListener = (name: string, handler: Listener) => {
+  (listeners[name] ??= []).push(handler);
+  return {
+    remove: jest.fn(() => {
+      listeners[name] = (listeners[name] ?? []).filter(
+        (listener) => listener !== handler
+      );
+    }),
+  };
+};
+
 export const mockEventEmitterInstance = {
-  addListener: jest.fn().mockReturnValue({ remove: jest.fn() }),
+  addListener: jest.fn(addListener),
   removeAllListeners: jest.fn(),
+  emit,
+};
+
+export const TurboModuleRegistry = {
+  getEnforcing: jest.fn(() => registered),
 };
 
 export const NativeModules = {
@@ -45,6 +79,9 @@ export const NativeModules = {
 
 export const NativeEventEmitter = jest.fn(() => mockEventEmitterInstance);
 
+/** Delivers an event to every `NativeEventEmitter` listener, like native. */
+export const DeviceEventEmitter = { emit };
+
 export const Platform = {
   OS: 'ios' as const,
   select: <T extends Record<string, unknown>>(obj: T) => obj.ios ?? obj.default,
@@ -55,3 +92,50 @@ export const processColor = jest.fn((color: string | number | undefined) => {
   return typeof color === 'number' ? color : 0xff000000;
 });
 
+let colorScheme: 'light' | 'dark' = 'light';
+const appearanceListeners = new Set<() => void>();
+
+export const Appearance = {
+  getColorScheme: () => colorScheme,
+  addChangeListener: (listener: () => void) => {
+    appearanceListeners.add(listener);
+    return { remove: () => appearanceListeners.delete(listener) };
+  },
+};
+
+let window: Window = { width: 390, height: 844, scale: 3, fontScale: 1 };
+const dimensionListeners = new Set<(change: { window: Window }) => void>();
+
+export const Dimensions = {
+  get: () => window,
+  addEventListener: (
+    _type: 'change',
+    listener: (change: { window: Window }) => void
+  ) => {
+    dimensionListeners.add(listener);
+    return { remove: () => dimensionListeners.delete(listener) };
+  },
+};
+
+export const Linking = { openURL: jest.fn(async (_url: string) => {}) };
+
+export const View = 'View';
+export const Text = 'Text';
+export const Pressable = 'Pressable';
+
+/** Makes `TurboModuleRegistry.getEnforcing` return `module`, e.g. a fake. */
+export const __register = (module: unknown) => {
+  registered = module;
+};
+
+/** Changes the system theme and notifies `Appearance` listeners. */
+export const __setColorScheme = (next: 'light' | 'dark') => {
+  colorScheme = next;
+  appearanceListeners.forEach((listener) => listener());
+};
+
+/** Resizes the window and notifies `Dimensions` listeners. */
+export const __setWindow = (width: number, height: number) => {
+  window = { ...window, width, height };
+  dimensionListeners.forEach((listener) => listener({ window }));
+};
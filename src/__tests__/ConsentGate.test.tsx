@@ -0,0 +1,200 @@
+/**
+ * Tests for `ConsentGate` and `ConsentPlaceholder`.
+ */
+
+import type { ReactNode } from 'react';
+import type { ReactTestRenderer } from 'react-test-renderer';
+
+(globalThis as Record<string, unknown>).IS_REACT_ACT_ENVIRONMENT = true;
+
+// `consentStore` caches the snapshot per module instance, so every test loads
+// fresh copies of the renderer, the gate and the native mock.
+const load = () => {
+  jest.resetModules();
+  require('../readiness').readiness.succeed();
+  const ReactNative = require('react-native');
+  return {
+    native: ReactNative.TurboModuleRegistry.getEnforcing(
+      'CmSdkReactNativeV3'
+    ) as { getUserStatus: jest.Mock; forceOpen: jest.Mock },
+    emit: ReactNative.DeviceEventEmitter.emit as (name: string) => void,
+    renderer:
+      require('react-test-renderer') as typeof import('react-test-renderer'),
+    gate: require('../ConsentGate') as typeof import('../ConsentGate'),
+  };
+};
+
+const status = (
+  purposes: Record<string, string>,
+  vendors: Record<string, string> = {}
+) => ({
+  status: 'choiceExists',
+  vendors,
+  purposes,
+  tcf: '',
+  addtlConsent: '',
+  regulation: 'GDPR',
+});
+
+describe('ConsentGate', () => {
+  let modules: ReturnType<typeof load>;
+  let renderer: ReactTestRenderer;
+
+  beforeEach(() => {
+    modules = load();
+  });
+
+  afterEach(() => {
+    modules.renderer.act(() => renderer.unmount());
+  });
+
+  const render = async (element: ReactNode) => {
+    await modules.renderer.act(async () => {
+      renderer = modules.renderer.create(<>{element}</>);
+    });
+    return renderer;
+  };
+
+  it('renders children when every listed consent is granted', async () => {
+    const { ConsentGate } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(
+      status({ c52: 'granted' }, { s1: 'granted' })
+    );
+
+    const tree = await render(
+      <ConsentGate purposes={['c52']} vendors={['s1']} fallback="blocked">
+        content
+      </ConsentGate>
+    );
+
+    expect(tree.toJSON()).toBe('content');
+  });
+
+  it('renders the fallback when one consent is missing in all mode', async () => {
+    const { ConsentGate } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(
+      status({ c52: 'granted' }, { s1: 'denied' })
+    );
+
+    const tree = await render(
+      <ConsentGate purposes={['c52']} vendors={['s1']} fallback="blocked">
+        content
+      </ConsentGate>
+    );
+
+    expect(tree.toJSON()).toBe('blocked');
+  });
+
+  it('renders children when one consent is granted in any mode', async () => {
+    const { ConsentGate } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(
+      status({ c52: 'denied', c53: 'granted' })
+    );
+
+    const tree = await render(
+      <ConsentGate purposes={['c52', 'c53']} mode="any" fallback="blocked">
+        content
+      </ConsentGate>
+    );
+
+    expect(tree.toJSON()).toBe('content');
+  });
+
+  it('passes what is missing to a fallback render function', async () => {
+    const { ConsentGate } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(
+      status({ c52: 'choiceDoesntExist' })
+    );
+    const fallback = jest.fn(() => 'blocked');
+
+    await render(
+      <ConsentGate purposes={['c52']} vendors={['s9']} fallback={fallback}>
+        content
+      </ConsentGate>
+    );
+
+    expect(fallback).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        missingPurposes: ['c52'],
+        missingVendors: ['s9'],
+      })
+    );
+  });
+
+  it('renders nothing until the first snapshot is available', async () => {
+    const { ConsentGate } = modules.gate;
+    modules.native.getUserStatus.mockReturnValue(new Promise(() => {}));
+
+    const tree = await render(
+      <ConsentGate purposes={['c52']} fallback="blocked">
+        content
+      </ConsentGate>
+    );
+
+    expect(tree.toJSON()).toBeNull();
+  });
+
+  it('opens when consent is granted through the layer', async () => {
+    const { ConsentGate } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(status({ c52: 'denied' }));
+    const tree = await render(
+      <ConsentGate purposes={['c52']} fallback="blocked">
+        content
+      </ConsentGate>
+    );
+    expect(tree.toJSON()).toBe('blocked');
+
+    modules.native.getUserStatus.mockResolvedValue(status({ c52: 'granted' }));
+    await modules.renderer.act(async () => {
+      modules.emit('didReceiveConsent');
+    });
+
+    expect(tree.toJSON()).toBe('content');
+  });
+
+  it('opens the consent settings from the placeholder', async () => {
+    const { ConsentGate, ConsentPlaceholder } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(status({ c52: 'denied' }));
+    const tree = await render(
+      <ConsentGate
+        purposes={['c52']}
+        fallback={<ConsentPlaceholder actionLabel="Allow videos" />}
+      >
+        content
+      </ConsentGate>
+    );
+
+    const button = tree.root.findByProps({ accessibilityRole: 'button' });
+    await modules.renderer.act(async () => {
+      button.props.onPress();
+    });
+
+    expect(modules.native.forceOpen).toHaveBeenCalledWith(true);
+  });
+
+  it('reports a layer that cannot be opened to onError', async () => {
+    const { ConsentGate, ConsentPlaceholder } = modules.gate;
+    modules.native.getUserStatus.mockResolvedValue(status({ c52: 'denied' }));
+    modules.native.forceOpen.mockRejectedValueOnce(
+      Object.assign(new Error('No activity'), { code: 'E_CONSENT_ERROR' })
+    );
+    const onError = jest.fn();
+    const tree = await render(
+      <ConsentGate
+        purposes={['c52']}
+        fallback={<ConsentPlaceholder onError={onError} />}
+      >
+        content
+      </ConsentGate>
+    );
+
+    const button = tree.root.findByProps({ accessibilityRole: 'button' });
+    await modules.renderer.act(async () => {
+      button.props.onPress();
+    });
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'CONSENT_ERROR', method: 'forceOpen' })
+    );
+  });
+});
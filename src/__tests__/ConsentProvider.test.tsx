@@ -0,0 +1,182 @@
+/**
+ * Tests for `ConsentProvider` and its hooks.
+ *
+ * The provider must keep the `resolveConsent` contract: one resolution on
+ * mount, then one snapshot read per `didReceiveConsent` event.
+ */
+
+import type { ReactTestRenderer } from 'react-test-renderer';
+import type { ConsentLayerState, ConsentState } from '../ConsentProvider';
+import type { ConsentStatusValue } from '../NativeCmSdkReactNativeV3';
+
+(globalThis as Record<string, unknown>).IS_REACT_ACT_ENVIRONMENT = true;
+
+// `consentStore` caches the snapshot per module instance, so every test loads
+// fresh copies of React, the renderer, the provider and the native mock.
+const load = () => {
+  jest.resetModules();
+  require('../readiness').readiness.succeed();
+  const ReactNative = require('react-native');
+  return {
+    native: ReactNative.TurboModuleRegistry.getEnforcing(
+      'CmSdkReactNativeV3'
+    ) as {
+      isConsentRequired: jest.Mock;
+      getUserStatus: jest.Mock;
+      checkAndOpen: jest.Mock;
+      forceOpen: jest.Mock;
+    },
+    emit: ReactNative.DeviceEventEmitter.emit as (
+      name: string,
+      event?: unknown
+    ) => void,
+    renderer:
+      require('react-test-renderer') as typeof import('react-test-renderer'),
+    provider:
+      require('../ConsentProvider') as typeof import('../ConsentProvider'),
+  };
+};
+
+let modules: ReturnType<typeof load>;
+
+const userStatus = {
+  status: 'choiceExists',
+  vendors: { s2789: 'granted' },
+  purposes: { c52: 'granted', c53: 'denied' },
+  tcf: 'tcf-string',
+  addtlConsent: '1~',
+  regulation: 'GDPR',
+};
+
+type Captured = {
+  consent?: ConsentState;
+  layer?: ConsentLayerState;
+  purpose?: ConsentStatusValue;
+  vendor?: ConsentStatusValue;
+};
+
+const Probe = ({ captured }: { captured: Captured }) => {
+  const { useConsent, useConsentLayer, usePurpose, useVendor } =
+    modules.provider;
+  captured.consent = useConsent();
+  captured.layer = useConsentLayer();
+  captured.purpose = usePurpose('c52');
+  captured.vendor = useVendor('s1');
+  return null;
+};
+
+describe('ConsentProvider', () => {
+  let renderer: ReactTestRenderer | undefined;
+  let native: ReturnType<typeof load>['native'];
+  let emit: ReturnType<typeof load>['emit'];
+  let act: typeof import('react-test-renderer').act;
+
+  beforeEach(() => {
+    modules = load();
+    ({ native, emit } = modules);
+    act = modules.renderer.act;
+    native.isConsentRequired.mockResolvedValue(true);
+    native.getUserStatus.mockResolvedValue(userStatus);
+  });
+
+  afterEach(() => {
+    act(() => renderer?.unmount());
+    renderer = undefined;
+  });
+
+  const mount = async (autoResolve?: boolean) => {
+    const { ConsentProvider } = modules.provider;
+    const { create } = modules.renderer;
+    const captured: Captured = {};
+    await act(async () => {
+      renderer = create(
+        <ConsentProvider autoResolve={autoResolve}>
+          <Probe captured={captured} />
+        </ConsentProvider>
+      );
+    });
+    return captured;
+  };
+
+  it('resolves once on mount and exposes the snapshot', async () => {
+    const captured = await mount();
+
+    expect(captured.consent).toMatchObject({
+      userStatus,
+      consentRequired: true,
+      regulation: 'GDPR',
+      loading: false,
+      error: null,
+    });
+    expect(captured.purpose).toBe('granted');
+    expect(captured.vendor).toBe('choiceDoesntExist');
+    expect(native.isConsentRequired).toHaveBeenCalledTimes(1);
+    expect(native.getUserStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads one snapshot when consent is received', async () => {
+    const captured = await mount();
+    const updated = {
+      ...userStatus,
+      purposes: { c52: 'denied' },
+    };
+    native.getUserStatus.mockResolvedValue(updated);
+
+    await act(async () => {
+      emit('didReceiveConsent', { consent: 'new', jsonObject: {} });
+    });
+
+    expect(captured.consent?.userStatus).toEqual(updated);
+    expect(captured.consent?.consentRequired).toBe(false);
+    expect(captured.purpose).toBe('denied');
+    expect(native.isConsentRequired).toHaveBeenCalledTimes(1);
+    expect(native.getUserStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('surfaces a failed resolution as error state', async () => {
+    native.isConsentRequired.mockRejectedValue(new Error('network down'));
+
+    const captured = await mount();
+
+    expect(captured.consent?.loading).toBe(false);
+    expect(captured.consent?.error?.message).toBe('network down');
+    expect(captured.consent?.userStatus).toBeNull();
+    expect(captured.purpose).toBeUndefined();
+  });
+
+  it('waits for refresh() when autoResolve is off', async () => {
+    const captured = await mount(false);
+
+    expect(native.isConsentRequired).not.toHaveBeenCalled();
+    expect(captured.consent?.loading).toBe(false);
+
+    await act(() => captured.consent!.refresh());
+
+    expect(captured.consent?.userStatus).toEqual(userStatus);
+  });
+
+  it('tracks layer visibility from the show and close events', async () => {
+    const captured = await mount();
+
+    act(() => emit('didShowConsentLayer'));
+    expect(captured.layer?.visible).toBe(true);
+
+    act(() => emit('didCloseConsentLayer'));
+    expect(captured.layer?.visible).toBe(false);
+
+    await act(() => captured.layer!.forceOpen().then(() => undefined));
+    expect(native.forceOpen).toHaveBeenCalledWith(false);
+  });
+
+  it('throws when a hook is used outside the provider', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      act(() => {
+        renderer = modules.renderer.create(<Probe captured={{}} />);
+      })
+    ).toThrow(/useConsent must be used within a ConsentProvider/);
+
+    spy.mockRestore();
+  });
+});
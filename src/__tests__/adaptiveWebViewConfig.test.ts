@@ -0,0 +1,127 @@
+/**
+ * Tests for the WebView config that follows Appearance and Dimensions.
+ */
+
+import { BackgroundStyle, BlurEffectStyle } from '../NativeCmSdkReactNativeV3';
+import { registerFakeCmSdk, settle } from './helpers';
+
+const load = () => {
+  const cmp = registerFakeCmSdk();
+  const ReactNative = require('react-native');
+  return {
+    cmp,
+    rn: ReactNative as {
+      __setColorScheme: (next: string) => void;
+      __setWindow: (width: number, height: number) => void;
+    },
+    core: require('../core') as typeof import('../core'),
+    adaptive:
+      require('../adaptiveWebViewConfig') as typeof import('../adaptiveWebViewConfig'),
+  };
+};
+
+describe('adaptive WebView config', () => {
+  it('applies a half-screen sheet on a phone in portrait', async () => {
+    const { core, adaptive } = load();
+    await core.setWebViewConfig({ cornerRadius: 16 });
+
+    await adaptive.enableAdaptiveWebViewConfig();
+
+    expect(core.getWebViewConfig()).toEqual({
+      cornerRadius: 16,
+      position: 'halfScreenBottom',
+      darkMode: false,
+    });
+    adaptive.disableAdaptiveWebViewConfig();
+  });
+
+  it('switches to the dark variant when the system theme changes', async () => {
+    const { core, rn, adaptive } = load();
+    await adaptive.enableAdaptiveWebViewConfig({
+      base: { backgroundStyle: BackgroundStyle.dimmed() },
+      dark: { backgroundStyle: BackgroundStyle.blur(BlurEffectStyle.Dark) },
+    });
+
+    rn.__setColorScheme('dark');
+    await settle();
+    expect(core.getWebViewConfig()).toMatchObject({
+      darkMode: true,
+      backgroundStyle: { type: 'blur' },
+    });
+
+    rn.__setColorScheme('light');
+    await settle();
+    expect(core.getWebViewConfig()).toMatchObject({
+      darkMode: false,
+      backgroundStyle: { type: 'dimmed' },
+    });
+    adaptive.disableAdaptiveWebViewConfig();
+  });
+
+  it('centers a custom rect in landscape and on tablets', async () => {
+    const { core, rn, adaptive } = load();
+    await adaptive.enableAdaptiveWebViewConfig();
+
+    rn.__setWindow(844, 390);
+    await settle();
+    expect(core.getWebViewConfig()).toMatchObject({
+      position: 'custom',
+      customRect: { width: 480, height: 273 },
+    });
+
+    rn.__setWindow(820, 1180);
+    await settle();
+    expect(core.getWebViewConfig()).toMatchObject({
+      position: 'custom',
+      customRect: { x: 170, y: 270, width: 480, height: 640 },
+    });
+    adaptive.disableAdaptiveWebViewConfig();
+  });
+
+  it('sizes the card from the given environment, not the current window', () => {
+    const { adaptive } = load();
+
+    expect(
+      adaptive.responsiveWebViewLayout({
+        colorScheme: 'light',
+        width: 1024,
+        height: 768,
+        orientation: 'landscape',
+        isTablet: true,
+      })
+    ).toEqual({
+      position: 'custom',
+      customRect: { x: 272, y: 115, width: 480, height: 538 },
+    });
+  });
+
+  it('does not call native again when nothing relevant changed', async () => {
+    const { cmp, rn, adaptive } = load();
+    await adaptive.enableAdaptiveWebViewConfig();
+    const setWebViewConfig = jest.spyOn(cmp, 'setWebViewConfig');
+
+    rn.__setWindow(390, 844);
+    await settle();
+
+    expect(setWebViewConfig).not.toHaveBeenCalled();
+    adaptive.disableAdaptiveWebViewConfig();
+  });
+
+  it('uses a custom layout and stops following after disable', async () => {
+    const { core, rn, adaptive } = load();
+    const layout = jest.fn((environment: { isTablet: boolean }) => ({
+      cornerRadius: environment.isTablet ? 24 : 8,
+    }));
+    await adaptive.enableAdaptiveWebViewConfig({
+      layout,
+      followColorScheme: false,
+    });
+    expect(core.getWebViewConfig()).toEqual({ cornerRadius: 8 });
+
+    adaptive.disableAdaptiveWebViewConfig();
+    rn.__setWindow(820, 1180);
+    await settle();
+
+    expect(core.getWebViewConfig()).toEqual({ cornerRadius: 8 });
+  });
+});
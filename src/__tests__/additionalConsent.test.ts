@@ -0,0 +1,95 @@
+/**
+ * Tests for the Additional Consent string parser and `hasAdditionalConsent`.
+ */
+
+import { parseAdditionalConsent } from '../additionalConsent';
+
+// The status snapshot is cached per module instance, so each test loads a
+// fresh copy of the wrappers and native mock.
+const load = () => {
+  jest.resetModules();
+  require('../readiness').readiness.succeed();
+  const { TurboModuleRegistry } = require('react-native');
+  const native = TurboModuleRegistry.getEnforcing('CmSdkReactNativeV3') as {
+    getUserStatus: jest.Mock;
+  };
+  const { hasAdditionalConsent } =
+    require('../additionalConsent') as typeof import('../additionalConsent');
+  return { native, hasAdditionalConsent };
+};
+
+const withAddtlConsent = (addtlConsent: string) => ({
+  status: 'choiceExists',
+  vendors: {},
+  purposes: {},
+  tcf: '',
+  addtlConsent,
+  regulation: 'GDPR',
+});
+
+describe('parseAdditionalConsent', () => {
+  it('parses a version 1 string', () => {
+    expect(parseAdditionalConsent('1~2072.89.2008')).toEqual({
+      version: 1,
+      consentedProviders: [89, 2008, 2072],
+      disclosedProviders: [],
+    });
+  });
+
+  it('parses a version 1 string without consents', () => {
+    expect(parseAdditionalConsent('1~')).toEqual({
+      version: 1,
+      consentedProviders: [],
+      disclosedProviders: [],
+    });
+  });
+
+  it('parses the disclosed section of a version 2 string', () => {
+    expect(parseAdditionalConsent('2~89.2008~dv.5.2072')).toEqual({
+      version: 2,
+      consentedProviders: [89, 2008],
+      disclosedProviders: [5, 2072],
+    });
+  });
+
+  it('parses a version 2 string with only disclosed providers', () => {
+    expect(parseAdditionalConsent('2~~dv.5')).toEqual({
+      version: 2,
+      consentedProviders: [],
+      disclosedProviders: [5],
+    });
+  });
+
+  it.each([
+    ['', /string is empty/],
+    ['3~1.2', /unsupported version 3/],
+    ['1~1.x', /"x" is not a provider id/],
+    ['1~1~dv.2', /version 1 has a single section/],
+    ['2~1~2', /must start with "dv."/],
+  ])('rejects %p', (value, message) => {
+    expect(() => parseAdditionalConsent(value)).toThrow(message);
+  });
+});
+
+describe('hasAdditionalConsent', () => {
+  it('is true for a consented provider', async () => {
+    const { native, hasAdditionalConsent } = load();
+    native.getUserStatus.mockResolvedValue(withAddtlConsent('2~89~dv.5'));
+
+    await expect(hasAdditionalConsent(89)).resolves.toBe(true);
+  });
+
+  it('is false for a provider that was only disclosed', async () => {
+    const { native, hasAdditionalConsent } = load();
+    native.getUserStatus.mockResolvedValue(withAddtlConsent('2~89~dv.5'));
+
+    await expect(hasAdditionalConsent(5)).resolves.toBe(false);
+  });
+
+  it('is false when the native SDK has no string yet', async () => {
+    const { native, hasAdditionalConsent } = load();
+    native.getUserStatus.mockResolvedValue(withAddtlConsent(''));
+
+    await expect(hasAdditionalConsent(89)).resolves.toBe(false);
+  });
+});
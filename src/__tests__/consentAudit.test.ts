@@ -0,0 +1,190 @@
+/**
+ * Tests for the local consent audit log, driven through the in-memory fake.
+ */
+
+import { sha256 } from '../sha256';
+import { registerFakeCmSdk } from './helpers';
+
+const load = () => {
+  const cmp = registerFakeCmSdk({
+    purposes: { c52: 'choiceDoesntExist' },
+    vendors: { s1: 'choiceDoesntExist' },
+    tcf: 'initial-tcf',
+  });
+  return {
+    cmp,
+    core: require('../core') as typeof import('../core'),
+    audit: require('../consentAudit') as typeof import('../consentAudit'),
+  };
+};
+
+describe('sha256', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+    [
+      'é€😀',
+      'df9226927fd572c1ee66eec85de1bb139497614899f36e4e90474cb71f6ef9d0',
+    ],
+  ])('hashes %p', (value, digest) => {
+    expect(sha256(value)).toBe(digest);
+  });
+});
+
+describe('consent audit log', () => {
+  it('records nothing until enabled', async () => {
+    const { core, audit } = load();
+
+    await core.acceptAll();
+
+    await expect(audit.getConsentAuditLog()).resolves.toEqual([]);
+  });
+
+  it('records programmatic changes with their ids', async () => {
+    const { core, audit } = load();
+    audit.enableConsentAudit();
+
+    await core.acceptAll();
+    await core.rejectPurposes(['c52'], true);
+
+    const entries = await audit.getConsentAuditLog();
+    expect(entries).toEqual([
+      expect.objectContaining({
+        operation: 'acceptAll',
+        source: 'programmatic',
+        regulation: 'GDPR',
+        tcfHash: sha256('initial-tcf'),
+      }),
+      expect.objectContaining({
+        operation: 'rejectPurposes',
+        source: 'programmatic',
+        ids: ['c52'],
+      }),
+    ]);
+    expect(typeof entries[0]?.timestamp).toBe('number');
+  });
+
+  it('records layer decisions with the hash of the new TCF string', async () => {
+    const { cmp, audit } = load();
+    audit.enableConsentAudit();
+
+    cmp.simulateConsentReceived({ tcf: 'layer-tcf' });
+
+    await expect(audit.getConsentAuditLog()).resolves.toEqual([
+      expect.objectContaining({
+        operation: 'didReceiveConsent',
+        source: 'layer',
+        tcfHash: sha256('layer-tcf'),
+      }),
+    ]);
+  });
+
+  it('marks imports and leaves the hash empty after a reset', async () => {
+    const { core, audit } = load();
+    const exported = await core.exportCMPInfo();
+    audit.enableConsentAudit();
+
+    await core.importCMPInfo(exported);
+    await core.resetConsentManagementData();
+
+    await expect(audit.getConsentAuditLog()).resolves.toEqual([
+      expect.objectContaining({ operation: 'importCMPInfo', source: 'import' }),
+      expect.objectContaining({
+        operation: 'resetConsentManagementData',
+        tcfHash: '',
+      }),
+    ]);
+  });
+
+  it('skips calls the native SDK rejected', async () => {
+    const { cmp, core, audit } = load();
+    audit.enableConsentAudit();
+    cmp.rejectNext('acceptAll', 'offline');
+
+    await expect(core.acceptAll()).rejects.toThrow('offline');
+
+    await expect(audit.getConsentAuditLog()).resolves.toEqual([]);
+  });
+
+  it('filters by source, operation and time', async () => {
+    const { cmp, core, audit } = load();
+    const now = jest.spyOn(Date, 'now');
+    audit.enableConsentAudit();
+
+    now.mockReturnValue(1000);
+    await core.acceptVendors(['s1']);
+    now.mockReturnValue(2000);
+    cmp.simulateConsentReceived('rejectAll');
+    now.mockReturnValue(3000);
+    await core.acceptAll();
+    now.mockRestore();
+
+    const operations = async (query: object) =>
+      (await audit.getConsentAuditLog(query)).map((e) => e.operation);
+    await expect(operations({ source: 'layer' })).resolves.toEqual([
+      'didReceiveConsent',
+    ]);
+    await expect(operations({ operation: 'acceptAll' })).resolves.toEqual([
+      'acceptAll',
+    ]);
+    await expect(operations({ since: 1500, until: 2500 })).resolves.toEqual([
+      'didReceiveConsent',
+    ]);
+  });
+
+  it('keeps only the newest entries in pluggable storage', async () => {
+    const { core, audit } = load();
+    const saved: unknown[][] = [];
+    const storage = audit.createMemoryAuditStorage();
+    audit.enableConsentAudit({
+      maxEntries: 2,
+      storage: {
+        load: storage.load,
+        save: async (entries) => {
+          saved.push(entries);
+          await storage.save(entries);
+        },
+      },
+    });
+
+    await core.acceptAll();
+    await core.rejectAll();
+    await core.acceptAll();
+
+    const entries = await audit.getConsentAuditLog();
+    expect(entries.map((entry) => entry.operation)).toEqual([
+      'rejectAll',
+      'acceptAll',
+    ]);
+    expect(saved).toHaveLength(3);
+  });
+
+  it('stops recording when disabled but keeps the history', async () => {
+    const { cmp, core, audit } = load();
+    audit.enableConsentAudit();
+    await core.acceptAll();
+
+    audit.disableConsentAudit();
+    await core.rejectAll();
+    cmp.simulateConsentReceived('acceptAll');
+
+    await expect(audit.getConsentAuditLog()).resolves.toHaveLength(1);
+  });
+
+  it('exports and clears the log', async () => {
+    const { core, audit } = load();
+    audit.enableConsentAudit();
+    await core.acceptAll();
+
+    const exported = JSON.parse(await audit.exportConsentAuditLog());
+    expect(exported.entries).toHaveLength(1);
+    expect(typeof exported.exportedAt).toBe('string');
+
+    await audit.clearConsentAuditLog();
+    await expect(audit.getConsentAuditLog()).resolves.toEqual([]);
+  });
+});
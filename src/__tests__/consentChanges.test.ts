@@ -0,0 +1,230 @@
+/**
+ * Tests for consent change diffing, driven through the in-memory fake.
+ */
+
+import { diffUserStatus } from '../consentChanges';
+import type { ConsentStatusValue } from '../NativeCmSdkReactNativeV3';
+import { registerFakeCmSdk, settle } from './helpers';
+
+const load = ({ ready = true } = {}) => {
+  const cmp = registerFakeCmSdk(
+    {
+      purposes: { c52: 'choiceDoesntExist', c53: 'choiceDoesntExist' },
+      vendors: { s1: 'choiceDoesntExist', s2: 'choiceDoesntExist' },
+    },
+    { ready }
+  );
+  return {
+    cmp,
+    core: require('../core') as typeof import('../core'),
+    changes: require('../consentChanges') as typeof import('../consentChanges'),
+  };
+};
+
+const status = (
+  purposes: Record<string, ConsentStatusValue>,
+  vendors: Record<string, ConsentStatusValue> = {},
+  extra: { tcf?: string; regulation?: string } = {}
+) => ({
+  status: 'choiceExists' as const,
+  vendors,
+  purposes,
+  tcf: extra.tcf ?? 'tcf',
+  addtlConsent: '',
+  regulation: extra.regulation ?? 'GDPR',
+});
+
+describe('diffUserStatus', () => {
+  it('reports granted and revoked ids', () => {
+    const change = diffUserStatus(
+      status({ c52: 'granted', c53: 'denied' }, { s1: 'granted' }),
+      status({ c52: 'denied', c53: 'granted' }, { s1: 'choiceDoesntExist' })
+    );
+
+    expect(change).toMatchObject({
+      grantedPurposes: ['c53'],
+      revokedPurposes: ['c52'],
+      grantedVendors: [],
+      revokedVendors: ['s1'],
+      regulation: null,
+      tcfChanged: false,
+    });
+  });
+
+  it('treats an id missing from the new snapshot as revoked', () => {
+    const change = diffUserStatus(
+      status({}, { s1: 'granted' }),
+      status({}, {})
+    );
+
+    expect(change?.revokedVendors).toEqual(['s1']);
+  });
+
+  it('reports regulation and TCF string changes on their own', () => {
+    const change = diffUserStatus(
+      status({}, {}, { regulation: '', tcf: 'a' }),
+      status({}, {}, { regulation: 'GDPR', tcf: 'b' })
+    );
+
+    expect(change).toMatchObject({
+      regulation: { from: '', to: 'GDPR' },
+      tcfChanged: true,
+    });
+  });
+
+  it('returns null when nothing relevant changed', () => {
+    expect(
+      diffUserStatus(
+        status({ c52: 'denied' }),
+        status({ c52: 'choiceDoesntExist' })
+      )
+    ).toBeNull();
+  });
+});
+
+describe('addConsentChangeListener', () => {
+  it('reports a decision made in the consent layer', async () => {
+    const { cmp, changes } = load();
+    const listener = jest.fn();
+    changes.addConsentChangeListener(listener);
+    await settle();
+
+    cmp.simulateConsentReceived({
+      purposes: { c52: 'granted' },
+      vendors: { s2: 'granted' },
+      tcf: 'new-tcf',
+    });
+    await settle();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        grantedPurposes: ['c52'],
+        grantedVendors: ['s2'],
+        revokedVendors: [],
+        tcfChanged: true,
+      })
+    );
+  });
+
+  it('reports changes made through the wrappers', async () => {
+    const { core, changes } = load();
+    await core.acceptAll();
+    const listener = jest.fn();
+    changes.addConsentChangeListener(listener);
+    await settle();
+
+    await core.rejectVendors(['s1']);
+    await settle();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ revokedVendors: ['s1'], grantedVendors: [] })
+    );
+  });
+
+  it('does not report the baseline snapshot', async () => {
+    const { changes } = load();
+    const listener = jest.fn();
+
+    changes.addConsentChangeListener(listener);
+    await settle();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reads a fresh baseline instead of a stale cached snapshot', async () => {
+    const { cmp, core, changes } = load();
+    await core.getUserStatus();
+    // Changes native state without an event, so the cached snapshot is stale.
+    await cmp.acceptAll();
+    const listener = jest.fn();
+    changes.addConsentChangeListener(listener);
+    await settle();
+
+    expect(listener).not.toHaveBeenCalled();
+
+    await core.rejectVendors(['s1']);
+    await settle();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        grantedPurposes: [],
+        grantedVendors: [],
+        revokedVendors: ['s1'],
+      })
+    );
+  });
+
+  it('reports changes when registered before initialization', async () => {
+    const { cmp, core, changes } = load({ ready: false });
+    const listener = jest.fn();
+    changes.addConsentChangeListener(listener);
+    await settle();
+
+    await core.setUrlConfig({
+      id: 'abc123',
+      domain: 'delivery.consentmanager.net',
+      language: 'EN',
+      appName: 'Test',
+    });
+    await settle();
+    expect(listener).not.toHaveBeenCalled();
+
+    await core.acceptAll();
+    await settle();
+    cmp.simulateConsentReceived('rejectAll');
+    await settle();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ grantedPurposes: ['c52', 'c53'] })
+    );
+    expect(listener).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ revokedPurposes: ['c52', 'c53'] })
+    );
+  });
+
+  it('does not report a baseline that lands after remove', async () => {
+    const { cmp, changes } = load();
+    const read = cmp.getUserStatus.bind(cmp);
+    let landBaseline = () => {};
+    const getUserStatus = jest
+      .spyOn(cmp, 'getUserStatus')
+      // Reads the state at call time but holds the result back.
+      .mockImplementationOnce(() => {
+        const baseline = read();
+        return new Promise((resolve) => {
+          landBaseline = () => resolve(baseline);
+        });
+      });
+    const listener = jest.fn();
+    const subscription = changes.addConsentChangeListener(listener);
+    await settle();
+    expect(getUserStatus).toHaveBeenCalledTimes(1);
+
+    // A newer read lands while the baseline read is still pending.
+    cmp.simulateConsentReceived('acceptAll');
+    await settle();
+    subscription.remove();
+    landBaseline();
+    await settle();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops reporting after remove', async () => {
+    const { cmp, changes } = load();
+    const listener = jest.fn();
+    const subscription = changes.addConsentChangeListener(listener);
+    await settle();
+
+    subscription.remove();
+    cmp.simulateConsentReceived('acceptAll');
+    await settle();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the consent expiry policy.
+ */
+
+import type { FakeCmSdkOptions } from '../testing';
+import { registerFakeCmSdk } from './helpers';
+
+const BASE64_URL =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bits = (value: number, length: number) =>
+  value.toString(2).padStart(length, '0');
+
+// Minimal TCF v2 core segment: only the dates and the vendor list version are
+// set, every list after them is empty.
+const tcString = (lastUpdated: number, vendorListVersion: number) => {
+  const bitString = (
+    bits(2, 6) +
+    bits(Math.round(lastUpdated / 100), 36) +
+    bits(Math.round(lastUpdated / 100), 36) +
+    bits(0, 12 + 12 + 6 + 12) +
+    bits(vendorListVersion, 12)
+  ).padEnd(300, '0');
+  let out = '';
+  for (let i = 0; i < bitString.length; i += 6) {
+    out += BASE64_URL[parseInt(bitString.slice(i, i + 6), 2)];
+  }
+  return out;
+};
+
+const load = (options?: FakeCmSdkOptions) => {
+  const cmp = registerFakeCmSdk({ consentRequired: false, ...options });
+  return {
+    cmp,
+    expiry: require('../consentExpiry') as typeof import('../consentExpiry'),
+  };
+};
+
+describe('consent expiry', () => {
+  it('reports the age from the TCF string', async () => {
+    const lastUpdated = Date.now() - 10 * DAY_MS - 1000;
+    const { expiry } = load({ tcf: tcString(lastUpdated, 48) });
+
+    await expect(expiry.getConsentAge()).resolves.toMatchObject({
+      ageDays: 10,
+      vendorListVersion: 48,
+    });
+  });
+
+  it('has no age without a TCF string', async () => {
+    const { expiry } = load({ tcf: '' });
+
+    await expect(expiry.getConsentAge()).resolves.toBeNull();
+    await expect(expiry.isConsentExpired()).resolves.toBe(false);
+  });
+
+  it('expires consent older than maxAgeDays', async () => {
+    const { expiry } = load({ tcf: tcString(Date.now() - 400 * DAY_MS, 48) });
+    expiry.setConsentExpiryPolicy({ maxAgeDays: 390 });
+
+    await expect(expiry.getConsentExpiry()).resolves.toMatchObject({
+      expired: true,
+      reason: 'maxAge',
+    });
+  });
+
+  it('keeps recent consent valid', async () => {
+    const { expiry } = load({ tcf: tcString(Date.now() - 30 * DAY_MS, 48) });
+    expiry.setConsentExpiryPolicy({ maxAgeDays: 390 });
+
+    await expect(expiry.isConsentExpired()).resolves.toBe(false);
+  });
+
+  it('expires consent given for an older vendor list', async () => {
+    const { expiry } = load({ tcf: tcString(Date.now(), 48) });
+    expiry.setConsentExpiryPolicy({
+      rePromptOnVendorListChange: true,
+      vendorListVersion: async () => 52,
+    });
+
+    await expect(expiry.getConsentExpiry()).resolves.toMatchObject({
+      expired: true,
+      reason: 'vendorListChanged',
+    });
+  });
+
+  it('forces the layer open when consent expired', async () => {
+    const { cmp, expiry } = load({
+      tcf: tcString(Date.now() - 400 * DAY_MS, 48),
+    });
+    const forceOpen = jest.spyOn(cmp, 'forceOpen');
+    expiry.setConsentExpiryPolicy({ maxAgeDays: 390 });
+
+    await expect(expiry.checkAndOpenWithExpiry()).resolves.toMatchObject({
+      layerShown: true,
+      expiry: { expired: true },
+    });
+    expect(forceOpen).toHaveBeenCalledWith(false);
+  });
+
+  it('leaves the decision to the CMP when consent is still valid', async () => {
+    const { cmp, expiry } = load({ tcf: tcString(Date.now(), 48) });
+    const forceOpen = jest.spyOn(cmp, 'forceOpen');
+    expiry.setConsentExpiryPolicy({ maxAgeDays: 390 });
+
+    await expect(expiry.checkAndOpenWithExpiry()).resolves.toMatchObject({
+      layerShown: false,
+      expiry: { expired: false },
+    });
+    expect(forceOpen).not.toHaveBeenCalled();
+  });
+});
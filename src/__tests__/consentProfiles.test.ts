@@ -0,0 +1,137 @@
+/**
+ * Tests for per-user consent profiles.
+ */
+
+import type { ConsentProfileManagerOptions } from '../consentProfiles';
+import { registerFakeCmSdk } from './helpers';
+
+const load = (options?: ConsentProfileManagerOptions) => {
+  const cmp = registerFakeCmSdk({
+    purposes: { c52: 'choiceDoesntExist' },
+    vendors: { s2789: 'choiceDoesntExist' },
+  });
+  const core = require('../core') as typeof import('../core');
+  const { createConsentProfileManager } =
+    require('../consentProfiles') as typeof import('../consentProfiles');
+  return { cmp, core, profiles: createConsentProfileManager(options) };
+};
+
+describe('consent profiles', () => {
+  it('starts a new user from reset consent data', async () => {
+    const { cmp, core, profiles } = load();
+    await core.acceptAll();
+
+    await expect(profiles.login('alice')).resolves.toEqual({
+      from: null,
+      to: 'alice',
+      outcome: 'reset',
+    });
+    expect(cmp.getState().purposes).toEqual({ c52: 'choiceDoesntExist' });
+    expect(profiles.getCurrentUserId()).toBe('alice');
+  });
+
+  it('saves on switch and restores on the next login', async () => {
+    const { cmp, core, profiles } = load();
+    await profiles.login('alice');
+    await core.acceptAll();
+
+    await expect(profiles.login('bob')).resolves.toMatchObject({
+      from: 'alice',
+      outcome: 'reset',
+    });
+    expect(cmp.getState().purposes).toEqual({ c52: 'choiceDoesntExist' });
+    await core.rejectAll();
+
+    await expect(profiles.login('alice')).resolves.toMatchObject({
+      from: 'bob',
+      outcome: 'restored',
+    });
+    expect(cmp.getState().purposes).toEqual({ c52: 'granted' });
+
+    await profiles.login('bob');
+    expect(cmp.getState().purposes).toEqual({ c52: 'denied' });
+  });
+
+  it('saves and resets on logout', async () => {
+    const save = jest.fn(async () => {});
+    const { cmp, core, profiles } = load({
+      currentUserId: 'alice',
+      storage: { load: async () => null, save, remove: async () => {} },
+    });
+    await core.acceptAll();
+
+    await expect(profiles.logout()).resolves.toEqual({
+      from: 'alice',
+      to: null,
+      outcome: 'reset',
+    });
+    expect(save).toHaveBeenCalledWith('alice', expect.any(String));
+    expect(cmp.getState().consentRequired).toBe(true);
+  });
+
+  it('keeps consent data on logout when asked to', async () => {
+    const { cmp, core, profiles } = load({
+      currentUserId: 'alice',
+      resetOnLogout: false,
+    });
+    await core.acceptAll();
+
+    await expect(profiles.logout()).resolves.toMatchObject({
+      outcome: 'kept',
+    });
+    expect(cmp.getState().purposes).toEqual({ c52: 'granted' });
+  });
+
+  it('does nothing when the active user logs in again', async () => {
+    const { cmp, profiles } = load({ currentUserId: 'alice' });
+    const reset = jest.spyOn(cmp, 'resetConsentManagementData');
+
+    await expect(profiles.login('alice')).resolves.toMatchObject({
+      outcome: 'kept',
+    });
+    expect(reset).not.toHaveBeenCalled();
+  });
+
+  it('notifies listeners of every switch', async () => {
+    const { profiles } = load();
+    const listener = jest.fn();
+    const subscription = profiles.addProfileSwitchListener(listener);
+
+    await profiles.login('alice');
+    await profiles.login('bob');
+    subscription.remove();
+    await profiles.logout();
+
+    expect(listener.mock.calls.map(([event]) => event.to)).toEqual([
+      'alice',
+      'bob',
+    ]);
+  });
+
+  it('runs overlapping switches one after the other', async () => {
+    const { core, profiles } = load();
+    await profiles.login('alice');
+    await core.acceptAll();
+
+    const [toBob, toAlice] = await Promise.all([
+      profiles.login('bob'),
+      profiles.login('alice'),
+    ]);
+
+    expect(toBob).toMatchObject({ from: 'alice', outcome: 'reset' });
+    expect(toAlice).toMatchObject({ from: 'bob', outcome: 'restored' });
+  });
+
+  it('forgets a deleted profile', async () => {
+    const { core, profiles } = load();
+    await profiles.login('alice');
+    await core.acceptAll();
+    await profiles.login('bob');
+
+    await profiles.deleteProfile('alice');
+
+    await expect(profiles.login('alice')).resolves.toMatchObject({
+      outcome: 'reset',
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for consent status normalization on the native read paths.
+ */
+
+import { normalizeConsentStatus } from '../consentStatus';
+import { registerFakeCmSdk } from './helpers';
+
+const load = () => {
+  const cmp = registerFakeCmSdk();
+  const core = require('../core') as typeof import('../core');
+  const errors: string[] = [];
+  core.addErrorListener((error) => errors.push(error));
+  return { cmp, core, errors };
+};
+
+describe('normalizeConsentStatus', () => {
+  it.each([['granted'], ['denied'], ['choiceDoesntExist']])(
+    'keeps %p',
+    (value) => {
+      const report = jest.fn();
+      expect(normalizeConsentStatus(value, 'purposes.c52', report)).toBe(value);
+      expect(report).not.toHaveBeenCalled();
+    }
+  );
+
+  it.each([
+    ['pending'],
+    [''],
+    [1],
+    [null],
+    ['accepted'],
+    ['hasConsent'],
+    ['GRANTED'],
+    ['REJECTED'],
+    ['choice_doesnt_exist'],
+  ])('reports %p', (value) => {
+    const report = jest.fn();
+    expect(normalizeConsentStatus(value, 'purposes.c52', report)).toBe(
+      'choiceDoesntExist'
+    );
+    expect(report).toHaveBeenCalledWith(value, 'purposes.c52');
+  });
+});
+
+describe('consent status read paths', () => {
+  it('normalizes every status in getUserStatus', async () => {
+    const { cmp, core, errors } = load();
+    jest.spyOn(cmp, 'getUserStatus').mockResolvedValue({
+      status: 'choiceExists',
+      vendors: { s1: 'granted', s2: 'accepted', s3: 'legitimateInterest' },
+      purposes: { c52: 'denied' },
+      regulation: 'GDPR',
+      tcf: '',
+      addtlConsent: '',
+    });
+
+    const userStatus = await core.getUserStatus();
+
+    expect(userStatus.vendors).toEqual({
+      s1: 'granted',
+      s2: 'choiceDoesntExist',
+      s3: 'choiceDoesntExist',
+    });
+    expect(userStatus.purposes).toEqual({ c52: 'denied' });
+    expect(errors).toEqual([
+      expect.stringContaining(
+        'getUserStatus returned unknown consent status "accepted" for vendors.s2'
+      ),
+      expect.stringContaining(
+        'getUserStatus returned unknown consent status "legitimateInterest" for vendors.s3'
+      ),
+    ]);
+  });
+
+  it('reads an unknown user choice as choiceDoesntExist', async () => {
+    const { cmp, core, errors } = load();
+    jest.spyOn(cmp, 'getUserStatus').mockResolvedValue({
+      status: 'undecided',
+      hasUserChoice: 'undecided',
+      vendors: {},
+      purposes: {},
+      regulation: 'GDPR',
+      tcf: '',
+      addtlConsent: '',
+    });
+
+    const userStatus = await core.getUserStatus();
+
+    expect(userStatus.status).toBe('choiceDoesntExist');
+    expect(userStatus.hasUserChoice).toBe('choiceDoesntExist');
+    expect(errors).toHaveLength(1);
+  });
+
+  it('normalizes single purpose and vendor reads', async () => {
+    const { cmp, core, errors } = load();
+    jest.spyOn(cmp, 'getStatusForPurpose').mockResolvedValue('granted');
+    jest.spyOn(cmp, 'getStatusForVendor').mockResolvedValue('Allowed');
+
+    await expect(core.getStatusForPurpose('c52')).resolves.toBe('granted');
+    await expect(core.getStatusForVendor('s1')).resolves.toBe(
+      'choiceDoesntExist'
+    );
+    expect(errors).toEqual([expect.stringContaining('getStatusForVendor')]);
+    expect(errors[0]).toContain('vendors.s1');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the consent store and the wrappers that invalidate it.
+ *
+ * The point of the store is call count: one native read per invalidation, no
+ * matter how many readers ask for the status.
+ */
+
+import { createConsentStore } from '../consentStore';
+
+const status = (c52: string) => ({
+  status: 'choiceExists',
+  vendors: {},
+  purposes: { c52 },
+  tcf: '',
+  addtlConsent: '',
+  regulation: 'GDPR',
+});
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+describe('createConsentStore', () => {
+  it('serves the cached snapshot until it is invalidated', async () => {
+    const read = jest.fn().mockResolvedValue(status('granted'));
+    const store = createConsentStore({ read, watch: () => {} });
+
+    await store.get();
+    await store.get();
+    expect(read).toHaveBeenCalledTimes(1);
+
+    store.invalidate();
+    await store.get();
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('joins a read already in flight', async () => {
+    const pending = deferred<ReturnType<typeof status>>();
+    const read = jest.fn().mockReturnValue(pending.promise);
+    const store = createConsentStore({ read, watch: () => {} });
+
+    const first = store.get();
+    const second = store.refresh();
+    pending.resolve(status('granted'));
+
+    await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes once for subscribers after an invalidation', async () => {
+    const read = jest.fn().mockResolvedValue(status('denied'));
+    const store = createConsentStore({ read, watch: () => {} });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.invalidate();
+    await store.get();
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getSnapshot()).toEqual(status('denied'));
+  });
+
+  it('keeps the newer snapshot when an older read finishes last', async () => {
+    const older = deferred<ReturnType<typeof status>>();
+    const newer = deferred<ReturnType<typeof status>>();
+    const read = jest
+      .fn()
+      .mockReturnValueOnce(older.promise)
+      .mockReturnValueOnce(newer.promise);
+    const store = createConsentStore({ read, watch: () => {} });
+
+    const first = store.refresh();
+    store.invalidate();
+    const second = store.refresh();
+    newer.resolve(status('denied'));
+    await second;
+    older.resolve(status('granted'));
+    await first;
+
+    expect(store.getSnapshot()?.purposes.c52).toBe('denied');
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const read = jest.fn().mockResolvedValue(status('granted'));
+    const store = createConsentStore({ read, watch: () => {} });
+    const listener = jest.fn();
+
+    store.subscribe(listener)();
+    await store.refresh();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('consentStore wrappers', () => {
+  const load = () => {
+    jest.resetModules();
+    require('../readiness').readiness.succeed();
+    const ReactNative = require('react-native');
+    return {
+      native: ReactNative.TurboModuleRegistry.getEnforcing(
+        'CmSdkReactNativeV3'
+      ) as Record<string, jest.Mock>,
+      emit: ReactNative.DeviceEventEmitter.emit as (name: string) => void,
+      core: require('../core') as typeof import('../core'),
+    };
+  };
+
+  it('reads native once for repeated getUserStatus calls', async () => {
+    const { native, core } = load();
+    native.getUserStatus!.mockResolvedValue(status('granted'));
+
+    await core.getUserStatus();
+    await core.getUserStatus();
+
+    expect(native.getUserStatus).toHaveBeenCalledTimes(1);
+    expect(core.consentStore.getSnapshot()).toEqual(status('granted'));
+  });
+
+  it.each([
+    ['acceptAll', (core: typeof import('../core')) => core.acceptAll()],
+    [
+      'rejectPurposes',
+      (core: typeof import('../core')) => core.rejectPurposes(['c52'], true),
+    ],
+    [
+      'importCMPInfo',
+      (core: typeof import('../core')) => core.importCMPInfo('cmp'),
+    ],
+    [
+      'resetConsentManagementData',
+      (core: typeof import('../core')) => core.resetConsentManagementData(),
+    ],
+  ])('refreshes after %s', async (_name, change) => {
+    const { native, core } = load();
+    native.getUserStatus!.mockResolvedValue(status('granted'));
+    await core.getUserStatus();
+
+    native.getUserStatus!.mockResolvedValue(status('denied'));
+    await change(core);
+
+    await expect(core.getUserStatus()).resolves.toEqual(status('denied'));
+    expect(native.getUserStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('refreshes subscribers once after didReceiveConsent', async () => {
+    const { native, emit, core } = load();
+    native.getUserStatus!.mockResolvedValue(status('granted'));
+    const listener = jest.fn();
+    core.consentStore.subscribe(listener);
+    await core.consentStore.refresh();
+
+    native.getUserStatus!.mockResolvedValue(status('denied'));
+    emit('didReceiveConsent');
+    await core.getUserStatus();
+
+    expect(native.getUserStatus).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(core.consentStore.getSnapshot()).toEqual(status('denied'));
+  });
+
+  it('keeps the snapshot when a change is rejected', async () => {
+    const { native, core } = load();
+    native.getUserStatus!.mockResolvedValue(status('granted'));
+    await core.getUserStatus();
+    native.acceptAll!.mockRejectedValue(new Error('offline'));
+
+    await expect(core.acceptAll()).rejects.toThrow('offline');
+    await core.getUserStatus();
+
+    expect(native.getUserStatus).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Tests for cross-device consent sync, with the in-memory adapter standing in
+ * for the server.
+ */
+
+// TC strings here are `tc-<lastUpdated ms>`, which is all the engine reads.
+jest.mock('../tcf', () => ({
+  decodeTCString: (tcString: string) => ({
+    lastUpdated: new Date(Number(tcString.replace('tc-', ''))),
+  }),
+}));
+
+import type { ConsentSyncAdapter, ConsentSyncOptions } from '../consentSync';
+import type { ConsentStatusValue } from '../NativeCmSdkReactNativeV3';
+import { registerFakeCmSdk, settle } from './helpers';
+
+// Each load is a fresh device: new modules and a fake without a decision.
+const load = (
+  adapter: ConsentSyncAdapter,
+  options: Partial<ConsentSyncOptions> = {}
+) => {
+  const cmp = registerFakeCmSdk({
+    purposes: { c52: 'choiceDoesntExist' },
+    vendors: { s2789: 'choiceDoesntExist' },
+  });
+  const core = require('../core') as typeof import('../core');
+  const { createConsentSyncEngine } =
+    require('../consentSync') as typeof import('../consentSync');
+  const engine = createConsentSyncEngine({
+    adapter,
+    userId: 'alice',
+    ...options,
+  });
+  return { cmp, core, engine };
+};
+
+const memoryAdapter = () =>
+  (
+    require('../consentSync') as typeof import('../consentSync')
+  ).createMemorySyncAdapter();
+
+describe('consent sync', () => {
+  it('pushes a decision made in the consent layer', async () => {
+    const adapter = memoryAdapter();
+    const { cmp } = load(adapter);
+
+    cmp.simulateConsentReceived('acceptAll');
+    await settle();
+
+    const record = adapter.getRecords().alice;
+    expect(record?.status.userStatus.purposes).toEqual({ c52: 'granted' });
+    expect(record?.cmpString).toBe(await cmp.exportCMPInfo());
+  });
+
+  it('pushes decisions made through the consent methods', async () => {
+    const adapter = memoryAdapter();
+    const { core } = load(adapter);
+
+    await core.rejectAll();
+    await settle();
+
+    expect(adapter.getRecords().alice?.status.userStatus.purposes).toEqual({
+      c52: 'denied',
+    });
+  });
+
+  it('imports consent given on another device', async () => {
+    const adapter = memoryAdapter();
+    const first = load(adapter);
+    first.cmp.simulateConsentReceived('acceptAll');
+    await settle();
+
+    const second = load(adapter);
+    const push = jest.spyOn(adapter, 'push');
+
+    await expect(second.engine.sync()).resolves.toMatchObject({
+      outcome: 'pulled',
+      localUpdatedAt: null,
+    });
+    await settle();
+    expect(second.cmp.getState().purposes).toEqual({ c52: 'granted' });
+    expect(push).not.toHaveBeenCalled();
+  });
+
+  it('keeps and uploads local consent that is newer', async () => {
+    const adapter = memoryAdapter();
+    await adapter.push('alice', 'old', {
+      updatedAt: Date.now() - 60_000,
+      userStatus: {} as never,
+    });
+    const { core, engine } = load(adapter, { pushOnChange: false });
+    await core.acceptAll();
+
+    await expect(engine.sync()).resolves.toMatchObject({ outcome: 'pushed' });
+    expect(adapter.getRecords().alice?.cmpString).not.toBe('old');
+  });
+
+  it('dates a decision by when it was seen, not the TCF day', async () => {
+    const adapter = memoryAdapter();
+    const today = new Date().setUTCHours(0, 0, 0, 0);
+    await adapter.push('alice', 'earlier today', {
+      updatedAt: today,
+      userStatus: {} as never,
+    });
+    const { cmp, engine } = load(adapter, { pushOnChange: false });
+    cmp.simulateConsentReceived({
+      purposes: { c52: 'denied' },
+      tcf: `tc-${today}`,
+    });
+    await settle();
+
+    const result = await engine.sync();
+
+    expect(result.outcome).toBe('pushed');
+    expect(result.localUpdatedAt).toBeGreaterThan(today);
+    expect(adapter.getRecords().alice?.cmpString).not.toBe('earlier today');
+  });
+
+  it('keeps the more restrictive consent when the times are equal', async () => {
+    const today = new Date().setUTCHours(0, 0, 0, 0);
+    const decision = (c52: ConsentStatusValue) => ({
+      status: 'choiceExists' as const,
+      vendors: {},
+      purposes: { c52 },
+      regulation: 'GDPR',
+      tcf: `tc-${today}`,
+      addtlConsent: '',
+    });
+    const syncDevice = async (
+      local: ConsentStatusValue,
+      remote: ConsentStatusValue
+    ) => {
+      const adapter = memoryAdapter();
+      await adapter.push('alice', JSON.stringify(decision(remote)), {
+        updatedAt: today,
+        userStatus: decision(remote),
+      });
+      const { core, engine } = load(adapter);
+      // Imports are not local decisions, so only the TCF day dates them.
+      await core.importCMPInfo(JSON.stringify(decision(local)));
+      const { outcome } = await engine.sync();
+      return { outcome, record: adapter.getRecords().alice?.cmpString };
+    };
+
+    const revokedHere = await syncDevice('denied', 'granted');
+    const revokedThere = await syncDevice('granted', 'denied');
+
+    expect(revokedHere.outcome).toBe('pushed');
+    expect(revokedThere.outcome).toBe('pulled');
+    expect(JSON.parse(revokedHere.record ?? '')).toMatchObject({
+      purposes: { c52: 'denied' },
+    });
+    expect(revokedThere.record).toBe(revokedHere.record);
+  });
+
+  it('keeps local consent on a tie that is not a strict subset', async () => {
+    const today = new Date().setUTCHours(0, 0, 0, 0);
+    const decision = (purposes: Record<string, ConsentStatusValue>) => ({
+      status: 'choiceExists' as const,
+      vendors: {},
+      purposes,
+      regulation: 'GDPR',
+      tcf: `tc-${today}`,
+      addtlConsent: '',
+    });
+    const remote = decision({ c52: 'denied', c53: 'granted' });
+    const adapter = memoryAdapter();
+    await adapter.push('alice', JSON.stringify(remote), {
+      updatedAt: today,
+      userStatus: remote,
+    });
+    const { core, engine } = load(adapter);
+    await core.importCMPInfo(
+      JSON.stringify(decision({ c52: 'granted', c53: 'denied' }))
+    );
+
+    await expect(engine.sync()).resolves.toMatchObject({ outcome: 'pushed' });
+  });
+
+  it('reports inSync when nothing changed', async () => {
+    const adapter = memoryAdapter();
+    const { core, engine } = load(adapter);
+    await core.acceptAll();
+    await settle();
+
+    await expect(engine.sync()).resolves.toMatchObject({ outcome: 'inSync' });
+  });
+
+  it('skips syncing without a user', async () => {
+    const adapter = memoryAdapter();
+    const pull = jest.spyOn(adapter, 'pull');
+    const { cmp, engine } = load(adapter, { userId: () => null });
+
+    cmp.simulateConsentReceived('acceptAll');
+    await settle();
+
+    await expect(engine.sync()).resolves.toMatchObject({ outcome: 'skipped' });
+    expect(pull).not.toHaveBeenCalled();
+    expect(adapter.getRecords()).toEqual({});
+  });
+
+  it('stops pushing once stopped', async () => {
+    const adapter = memoryAdapter();
+    const { cmp, engine } = load(adapter);
+
+    engine.stop();
+    cmp.simulateConsentReceived('acceptAll');
+    await settle();
+
+    expect(adapter.getRecords()).toEqual({});
+  });
+
+  it('warns instead of throwing when a push fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const adapter = memoryAdapter();
+    jest.spyOn(adapter, 'push').mockRejectedValueOnce(new Error('offline'));
+    const { cmp } = load(adapter);
+
+    cmp.simulateConsentReceived('acceptAll');
+    await settle();
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Could not push consent'),
+      expect.any(Error)
+    );
+    warn.mockRestore();
+  });
+});
+
+describe('HTTP sync adapter', () => {
+  const response = (status: number, body?: unknown) =>
+    ({
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body,
+    }) as Response;
+
+  const createAdapter = (fetchImpl: jest.Mock) =>
+    (
+      require('../consentSync') as typeof import('../consentSync')
+    ).createHttpSyncAdapter({
+      baseUrl: 'https://api.example.com/consent/',
+      headers: async () => ({ Authorization: 'Bearer token' }),
+      fetch: fetchImpl,
+    });
+
+  it('reads a record and treats 404 as none', async () => {
+    const record = { cmpString: 'cmp', status: { updatedAt: 1 } };
+    const fetchImpl = jest
+      .fn()
+      .mockResolvedValueOnce(response(200, record))
+      .mockResolvedValueOnce(response(404));
+    const adapter = createAdapter(fetchImpl);
+
+    await expect(adapter.pull('a b')).resolves.toEqual(record);
+    await expect(adapter.pull('a b')).resolves.toBeNull();
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'https://api.example.com/consent/a%20b',
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+      })
+    );
+  });
+
+  it('writes the record as JSON', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(response(204));
+    const adapter = createAdapter(fetchImpl);
+    const status = { updatedAt: 1, userStatus: {} as never };
+
+    await adapter.push('alice', 'cmp', status);
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'https://api.example.com/consent/alice',
+      expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify({ cmpString: 'cmp', status }),
+      })
+    );
+  });
+
+  it('rejects on server errors', async () => {
+    const adapter = createAdapter(jest.fn().mockResolvedValue(response(500)));
+
+    await expect(adapter.pull('alice')).rejects.toThrow('HTTP 500');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for `CmpError` and the error mapping applied by every wrapper.
+ */
+
+// The shared mock runs on iOS; the platform-gated wrappers are tested on
+// Android.
+jest.mock('react-native', () => ({
+  ...jest.requireActual('../__mocks__/react-native'),
+  Platform: {
+    OS: 'android',
+    select: (obj: Record<string, unknown>) => obj.android,
+  },
+}));
+
+import { TurboModuleRegistry } from 'react-native';
+import {
+  checkAndOpen,
+  importCMPInfo,
+  setATTStatus,
+  setWebViewConfig,
+  updateFirebaseConsent,
+} from '../core';
+import { CmpError, isCmpError, toCmpError } from '../errors';
+import { readiness } from '../readiness';
+
+const native = TurboModuleRegistry.getEnforcing(
+  'CmSdkReactNativeV3'
+) as unknown as Record<string, jest.Mock>;
+
+const nativeRejection = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+beforeAll(() => {
+  readiness.succeed();
+});
+
+describe('CmpError', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('maps native codes onto the stable code union', async () => {
+    native.checkAndOpen!.mockRejectedValue(
+      nativeRejection('E_INIT_ERROR', 'Current activity is null.')
+    );
+
+    const error = await checkAndOpen(false).catch((e: unknown) => e);
+
+    expect(isCmpError(error)).toBe(true);
+    expect(error).toMatchObject({
+      name: 'CmpError',
+      code: 'INIT_ERROR',
+      platform: 'android',
+      method: 'checkAndOpen',
+      nativeCode: 'E_INIT_ERROR',
+      nativeMessage: 'Current activity is null.',
+      message: 'Current activity is null.',
+    });
+  });
+
+  it('keeps unknown native codes as UNKNOWN', async () => {
+    native.importCMPInfo!.mockRejectedValue(
+      nativeRejection('ERROR', 'Failed to import CMP info')
+    );
+
+    await expect(importCMPInfo('x')).rejects.toMatchObject({
+      code: 'UNKNOWN',
+      nativeCode: 'ERROR',
+      method: 'importCMPInfo',
+    });
+  });
+
+  it('reports a method missing on this platform as NOT_AVAILABLE', async () => {
+    await expect(updateFirebaseConsent()).rejects.toMatchObject({
+      code: 'NOT_AVAILABLE',
+      method: 'updateFirebaseConsent',
+    });
+  });
+
+  it('rejects invalid arguments before calling native', async () => {
+    await expect(setATTStatus(7)).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      method: 'setATTStatus',
+    });
+    await expect(
+      setWebViewConfig({ position: 'sideways' })
+    ).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      method: 'setWebViewConfig',
+      message: 'Invalid WebView position: sideways',
+    });
+    expect(native.setATTStatus).not.toHaveBeenCalled();
+    expect(native.setWebViewConfig).not.toHaveBeenCalled();
+  });
+
+  it('wraps values that are not errors', () => {
+    const error = toCmpError('boom', 'getUserStatus');
+
+    expect(error).toBeInstanceOf(CmpError);
+    expect(error).toMatchObject({ code: 'UNKNOWN', message: 'boom' });
+  });
+
+  it('passes an existing CmpError through unchanged', () => {
+    const original = new CmpError('CONSENT_ERROR', 'x', {
+      method: 'acceptAll',
+    });
+
+    expect(toCmpError(original, 'resolveConsent')).toBe(original);
+  });
+
+  it('rejects values that only look like a CmpError', () => {
+    expect(isCmpError({ name: 'CmpError', code: 'UNKNOWN' })).toBe(false);
+    expect(isCmpError(new Error('x'))).toBe(false);
+  });
+});
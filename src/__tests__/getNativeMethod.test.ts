@@ -45,6 +45,9 @@ describe('getNativeMethod-backed wrappers', () => {
     await expect(setAutomaticConsentUpdatesEnabled(true)).rejects.toThrow(
       /setAutomaticConsentUpdatesEnabled is not available on android/
     );
+    await expect(setAutomaticConsentUpdatesEnabled(true)).rejects.toMatchObject(
+      { code: 'NOT_AVAILABLE', platform: 'android' }
+    );
   });
 
   it('forwards to the native method when it exists', async () => {
@@ -0,0 +1,29 @@
+/**
+ * Helpers shared by the tests that drive the wrappers through the fake.
+ */
+
+import type { FakeCmSdk, FakeCmSdkOptions } from '../testing';
+
+/**
+ * Starts from fresh module copies and registers a fake as the native module,
+ * so the wrappers required afterwards talk to it.
+ *
+ * @param options - Initial state of the fake
+ * @param ready - Marks the SDK ready; pass false to test the readiness guard
+ * @returns The registered fake
+ */
+export const registerFakeCmSdk = (
+  options?: FakeCmSdkOptions,
+  { ready = true }: { ready?: boolean } = {}
+): FakeCmSdk => {
+  jest.resetModules();
+  if (ready) require('../readiness').readiness.succeed();
+  const { createFakeCmSdk } =
+    require('../testing') as typeof import('../testing');
+  const cmp = createFakeCmSdk(options);
+  require('react-native').__register(cmp);
+  return cmp;
+};
+
+/** Lets pending native calls and the store reads they trigger finish. */
+export const settle = () => new Promise((resolve) => setImmediate(resolve));
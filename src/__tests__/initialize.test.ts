@@ -0,0 +1,164 @@
+/**
+ * Tests for `initialize()`, readiness tracking and the "not initialized" guard.
+ */
+
+import { registerFakeCmSdk } from './helpers';
+
+// Readiness is module state, so every test starts from a fresh `idle` copy.
+const load = () => {
+  const cmp = registerFakeCmSdk(
+    { purposes: { c52: 'choiceDoesntExist' } },
+    { ready: false }
+  );
+  const ReactNative = require('react-native');
+  return {
+    cmp,
+    platform: ReactNative.Platform as { OS: string },
+    core: require('../core') as typeof import('../core'),
+    init: require('../initialize') as typeof import('../initialize'),
+  };
+};
+
+const urlConfig = {
+  id: 'abc123',
+  domain: 'delivery.consentmanager.net',
+  language: 'EN',
+  appName: 'Test',
+};
+
+describe('initialize', () => {
+  it('rejects consent calls before initialization without calling native', async () => {
+    const { cmp, core, init } = load();
+    const checkAndOpen = jest.spyOn(cmp, 'checkAndOpen');
+
+    await expect(core.checkAndOpen(false)).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+      method: 'checkAndOpen',
+      message: expect.stringMatching(/called before initialization/),
+    });
+    expect(checkAndOpen).not.toHaveBeenCalled();
+    expect(init.getInitState()).toBe('idle');
+  });
+
+  it('lets configuration calls through before initialization', async () => {
+    const { core } = load();
+
+    await expect(
+      core.setWebViewConfig({ cornerRadius: 8 })
+    ).resolves.toBeUndefined();
+  });
+
+  it('applies the steps in order and opens the layer when asked', async () => {
+    const { cmp, init } = load();
+    const calls: string[] = [];
+    (
+      [
+        'setWebViewConfig',
+        'setATTStatus',
+        'setUrlConfig',
+        'checkAndOpen',
+      ] as const
+    ).forEach((method) => {
+      const original = cmp[method] as (...args: unknown[]) => unknown;
+      jest.spyOn(cmp, method).mockImplementation((...args: unknown[]) => {
+        calls.push(method);
+        return original(...args) as never;
+      });
+    });
+
+    await expect(
+      init.initialize({
+        urlConfig,
+        webViewConfig: { cornerRadius: 8 },
+        attStatus: 3,
+        autoCheckAndOpen: true,
+      })
+    ).resolves.toEqual({ layerShown: true });
+
+    expect(calls).toEqual([
+      'setWebViewConfig',
+      'setATTStatus',
+      'setUrlConfig',
+      'checkAndOpen',
+    ]);
+    expect(cmp.getState()).toMatchObject({ urlConfig, attStatus: 3 });
+    expect(init.getInitState()).toBe('ready');
+  });
+
+  it('skips the ATT status on Android', async () => {
+    const { cmp, platform, init } = load();
+    platform.OS = 'android';
+    const setATTStatus = jest.spyOn(cmp, 'setATTStatus');
+
+    await init.initialize({ urlConfig, attStatus: 3 });
+
+    expect(setATTStatus).not.toHaveBeenCalled();
+    platform.OS = 'ios';
+  });
+
+  it('makes calls issued during initialization wait for it', async () => {
+    const { core, init } = load();
+
+    const initializing = init.initialize({ urlConfig });
+    const status = core.getUserStatus();
+    expect(init.getInitState()).toBe('initializing');
+
+    await initializing;
+    await expect(status).resolves.toMatchObject({
+      purposes: { c52: 'choiceDoesntExist' },
+    });
+  });
+
+  it('joins an initialization already running', () => {
+    const { init } = load();
+
+    expect(init.initialize({ urlConfig })).toBe(init.initialize({ urlConfig }));
+  });
+
+  it('reports a failed initialization to waiting and later calls', async () => {
+    const { cmp, core, init } = load();
+    cmp.rejectNext('setUrlConfig', 'Invalid domain', 'E_CONFIG_ERROR');
+
+    const ready = init.whenReady();
+    const initializing = init.initialize({ urlConfig });
+    const waiting = core.acceptAll();
+    await expect(initializing).rejects.toMatchObject({
+      code: 'CONFIG_ERROR',
+    });
+
+    await expect(ready).rejects.toMatchObject({ code: 'CONFIG_ERROR' });
+    await expect(waiting).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+      cause: expect.objectContaining({ code: 'CONFIG_ERROR' }),
+    });
+    await expect(core.acceptAll()).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+      message: expect.stringMatching(/initialization failed: Invalid domain/),
+    });
+    expect(init.getInitState()).toBe('failed');
+  });
+
+  it('guards calls made through the default export', async () => {
+    const { cmp, core } = load();
+    const checkAndOpen = jest.spyOn(cmp, 'checkAndOpen');
+    const CmSdkReactNativeV3 = core.default;
+
+    await expect(CmSdkReactNativeV3.checkAndOpen(false)).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+    });
+    expect(checkAndOpen).not.toHaveBeenCalled();
+
+    await CmSdkReactNativeV3.setUrlConfig(urlConfig);
+    await expect(CmSdkReactNativeV3.checkAndOpen(false)).resolves.toBe(true);
+  });
+
+  it('becomes ready through setUrlConfig alone', async () => {
+    const { core, init } = load();
+    const ready = init.whenReady();
+
+    await core.setUrlConfig(urlConfig);
+
+    await expect(ready).resolves.toBeUndefined();
+    await expect(core.acceptAll()).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the consent layer link handling policy.
+ */
+
+import type { LinkHandlingPolicy } from '../linkHandling';
+import { registerFakeCmSdk, settle } from './helpers';
+
+const load = () => {
+  const cmp = registerFakeCmSdk();
+  const ReactNative = require('react-native');
+  return {
+    cmp,
+    openURL: ReactNative.Linking.openURL as jest.Mock,
+    links: require('../linkHandling') as typeof import('../linkHandling'),
+  };
+};
+
+const policy = (overrides: Partial<LinkHandlingPolicy> = {}) => ({
+  allowlist: ['example.com', '*.example.com', 'consentmanager.net'],
+  rules: [
+    {
+      host: 'example.com',
+      path: '/privacy*',
+      action: 'route' as const,
+      screen: 'Privacy',
+    },
+    { host: '*.example.com', action: 'inApp' as const },
+  ],
+  openInApp: jest.fn(),
+  navigate: jest.fn(),
+  ...overrides,
+});
+
+describe('link handling policy', () => {
+  it('routes privacy links to an app screen', async () => {
+    const { cmp, links } = load();
+    const navigate = jest.fn();
+    links.setLinkHandlingPolicy(policy({ navigate }));
+
+    cmp.simulateLinkClick('https://Example.com/privacy-policy/en?x=1');
+    await settle();
+
+    expect(navigate).toHaveBeenCalledWith(
+      'Privacy',
+      'https://Example.com/privacy-policy/en?x=1'
+    );
+  });
+
+  it('opens matching hosts in the in-app browser', async () => {
+    const { cmp, links } = load();
+    const openInApp = jest.fn();
+    links.setLinkHandlingPolicy(policy({ openInApp }));
+
+    cmp.simulateLinkClick('https://help.example.com/consent');
+    await settle();
+
+    expect(openInApp).toHaveBeenCalledWith('https://help.example.com/consent');
+  });
+
+  it('opens other allowed links with the default action', async () => {
+    const { cmp, links, openURL } = load();
+    links.setLinkHandlingPolicy(policy());
+
+    cmp.simulateLinkClick('https://consentmanager.net/vendors');
+    await settle();
+
+    expect(openURL).toHaveBeenCalledWith('https://consentmanager.net/vendors');
+  });
+
+  it('blocks hosts outside the allowlist', async () => {
+    const { cmp, links, openURL } = load();
+    const onLinkHandled = jest.fn();
+    links.setLinkHandlingPolicy(policy({ onLinkHandled }));
+
+    cmp.simulateLinkClick('https://tracker.invalid/example.com');
+    cmp.simulateLinkClick('https://notexample.com/privacy');
+    await settle();
+
+    expect(openURL).not.toHaveBeenCalled();
+    expect(onLinkHandled).toHaveBeenCalledTimes(2);
+    expect(onLinkHandled).toHaveBeenCalledWith({
+      url: 'https://tracker.invalid/example.com',
+      action: 'block',
+      reason: 'notAllowed',
+    });
+  });
+
+  it('resolves actions without opening anything', () => {
+    const { links } = load();
+    links.setLinkHandlingPolicy(
+      policy({ allowlist: undefined, defaultAction: 'block' })
+    );
+
+    expect(links.resolveLinkAction('https://example.com/privacy')).toEqual({
+      url: 'https://example.com/privacy',
+      action: 'route',
+      screen: 'Privacy',
+      reason: 'rule',
+    });
+    expect(links.resolveLinkAction('https://other.org/')).toMatchObject({
+      action: 'block',
+      reason: 'default',
+    });
+  });
+
+  it('rejects a policy without the openers its actions need', () => {
+    const { links } = load();
+
+    expect(() =>
+      links.setLinkHandlingPolicy(policy({ navigate: undefined }))
+    ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    expect(() =>
+      links.setLinkHandlingPolicy({ defaultAction: 'inApp' })
+    ).toThrow('openInApp');
+  });
+
+  it('stops handling links when the policy is removed', async () => {
+    const { cmp, links, openURL } = load();
+    links.setLinkHandlingPolicy({});
+    links.setLinkHandlingPolicy(null);
+
+    cmp.simulateLinkClick('https://example.com');
+    await settle();
+
+    expect(openURL).not.toHaveBeenCalled();
+  });
+
+  it('leaves links the WebView opens itself to native', async () => {
+    const { cmp, links, openURL } = load();
+    const onLinkHandled = jest.fn();
+    links.setLinkHandlingPolicy({ onLinkHandled });
+
+    cmp.simulateLinkClick('https://adssettings.google.com/');
+    cmp.simulateLinkClick('https://policies.google.com/privacy');
+    await settle();
+
+    expect(onLinkHandled).toHaveBeenCalledTimes(1);
+    expect(openURL).toHaveBeenCalledTimes(1);
+    expect(openURL).toHaveBeenCalledWith('https://policies.google.com/privacy');
+  });
+
+  it('still opens the link when onLinkHandled throws', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { cmp, links, openURL } = load();
+    links.setLinkHandlingPolicy({
+      onLinkHandled: () => {
+        throw new Error('analytics down');
+      },
+    });
+
+    cmp.simulateLinkClick('https://consentmanager.net/vendors');
+    await settle();
+
+    expect(openURL).toHaveBeenCalledWith('https://consentmanager.net/vendors');
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('onLinkHandled failed'),
+      expect.any(Error)
+    );
+    warn.mockRestore();
+  });
+
+  it('warns when opening a link fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { cmp, links } = load();
+    links.setLinkHandlingPolicy(
+      policy({ openInApp: jest.fn().mockRejectedValue(new Error('no app')) })
+    );
+
+    cmp.simulateLinkClick('https://help.example.com');
+    await settle();
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Could not open https://help.example.com'),
+      expect.any(Error)
+    );
+    warn.mockRestore();
+  });
+});
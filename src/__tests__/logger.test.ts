@@ -0,0 +1,169 @@
+/**
+ * Tests for the structured logger, driven through the in-memory fake.
+ */
+
+import type { LogEntry, LoggerOptions } from '../logger';
+import { registerFakeCmSdk } from './helpers';
+
+const load = (options?: LoggerOptions) => {
+  const cmp = registerFakeCmSdk({
+    purposes: { c52: 'choiceDoesntExist' },
+    tcf: 'CQtcfString',
+    addtlConsent: '1~89',
+  });
+  const core = require('../core') as typeof import('../core');
+  const { setLogger } = require('../logger') as typeof import('../logger');
+  const entries: LogEntry[] = [];
+  setLogger({
+    level: 'debug',
+    sink: (entry) => entries.push(entry),
+    ...options,
+  });
+  return { cmp, core, entries, setLogger };
+};
+
+describe('logger', () => {
+  it('logs successful bridge calls with their duration', async () => {
+    const { core, entries } = load();
+
+    await core.acceptPurposes(['c52'], true);
+
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: 'debug',
+        type: 'call',
+        method: 'acceptPurposes',
+        outcome: 'success',
+        durationMs: expect.any(Number),
+        data: { args: [['c52'], true], result: true },
+      })
+    );
+  });
+
+  it('logs failed bridge calls with the error code', async () => {
+    const { cmp, core, entries } = load();
+    cmp.rejectNext('getStatusForPurpose', 'boom', 'E_STATUS_ERROR');
+
+    await expect(core.getStatusForPurpose('c52')).rejects.toThrow('boom');
+
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: 'info',
+        method: 'getStatusForPurpose',
+        outcome: 'failure',
+        errorCode: 'STATUS_ERROR',
+      })
+    );
+  });
+
+  it('redacts consent strings by default', async () => {
+    const { core, entries } = load();
+
+    const exported = await core.exportCMPInfo();
+    await core.importCMPInfo(exported);
+    await core.getUserStatus();
+
+    const logged = JSON.stringify(entries);
+    expect(logged).not.toContain('CQtcfString');
+    expect(logged).not.toContain('1~89');
+    expect(entries.find((entry) => entry.method === 'getUserStatus')).toEqual(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          result: expect.objectContaining({
+            tcf: '[redacted 11 chars]',
+            addtlConsent: '[redacted 4 chars]',
+          }),
+        }),
+      })
+    );
+  });
+
+  it('keeps consent strings when redaction is off', async () => {
+    const { core, entries } = load({ redact: false });
+
+    await core.getUserStatus();
+
+    expect(JSON.stringify(entries)).toContain('CQtcfString');
+  });
+
+  it('logs native events while debug entries are kept', () => {
+    const { cmp, entries, setLogger } = load();
+
+    cmp.simulateLinkClick('https://example.com');
+    cmp.simulateConsentReceived('acceptAll');
+    setLogger({ level: 'info', sink: (entry) => entries.push(entry) });
+    cmp.simulateLayerShown();
+
+    expect(
+      entries.filter((entry) => entry.type === 'event').map((e) => e.event)
+    ).toEqual(['onClickLink', 'didReceiveConsent']);
+    expect(JSON.stringify(entries)).not.toContain('CQtcfString');
+  });
+
+  it('redacts the privacy strings in a CMP consent payload', () => {
+    const { entries } = load();
+    const ReactNative = require('react-native');
+
+    ReactNative.DeviceEventEmitter.emit('didReceiveConsent', {
+      consent: 'CQtcfString',
+      jsonObject: {
+        cmpId: 31,
+        consentstring: 'CQtcfString',
+        gppstring: 'DBABMA~CQtcfString',
+        uspstring: '1YNN',
+        addtlConsent: '1~89',
+        IABTCF_TCString: 'CQtcfString',
+        regulation: 'GDPR',
+        purposeConsents: { c52: true },
+      },
+    });
+
+    const event = entries.find((entry) => entry.type === 'event');
+    expect(event?.data).toEqual({
+      consent: '[redacted 11 chars]',
+      jsonObject: {
+        cmpId: 31,
+        consentstring: '[redacted 11 chars]',
+        gppstring: '[redacted 18 chars]',
+        uspstring: '[redacted 4 chars]',
+        addtlConsent: '[redacted 4 chars]',
+        IABTCF_TCString: '[redacted 11 chars]',
+        regulation: 'GDPR',
+        purposeConsents: { c52: true },
+      },
+    });
+  });
+
+  it('drops entries below the level', async () => {
+    const { core, entries } = load({ level: 'warn' });
+
+    await core.getUserStatus();
+
+    expect(entries).toEqual([]);
+  });
+
+  it('never lets a failing sink break a call', async () => {
+    const { core } = load({
+      sink: () => {
+        throw new Error('sink down');
+      },
+    });
+
+    await expect(core.acceptAll()).resolves.toBe(true);
+  });
+
+  it('sends warnings to the console by default', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { setLogger } = load();
+    setLogger(null);
+    const { logWarning } = require('../logger') as typeof import('../logger');
+
+    logWarning('Could not save.', new Error('disk full'));
+
+    expect(warn).toHaveBeenCalledWith(
+      '[cm-sdk-react-native-v3-new-arch] Could not save.',
+      expect.any(Error)
+    );
+    warn.mockRestore();
+  });
+});
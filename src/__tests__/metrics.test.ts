@@ -0,0 +1,104 @@
+/**
+ * Tests for per-call metrics, driven through the in-memory fake.
+ */
+
+import type { CallMetric } from '../metrics';
+import { registerFakeCmSdk } from './helpers';
+
+const load = () => {
+  const cmp = registerFakeCmSdk();
+  return {
+    cmp,
+    core: require('../core') as typeof import('../core'),
+    metrics: require('../metrics') as typeof import('../metrics'),
+  };
+};
+
+describe('metrics', () => {
+  it('counts calls and failures per native method', async () => {
+    const { cmp, core, metrics } = load();
+    cmp.rejectNext('getUserStatus', 'boom', 'E_STATUS_ERROR');
+
+    await expect(core.getUserStatus()).rejects.toThrow('boom');
+    await core.getUserStatus();
+    await core.isConsentRequired();
+
+    expect(metrics.getMetrics()).toEqual({
+      getUserStatus: expect.objectContaining({
+        calls: 2,
+        failures: 1,
+        errorCodes: { STATUS_ERROR: 1 },
+      }),
+      isConsentRequired: expect.objectContaining({ calls: 1, failures: 0 }),
+    });
+  });
+
+  it('reports latency percentiles', () => {
+    const { metrics } = load();
+    for (let duration = 1; duration <= 100; duration += 1) {
+      metrics.recordCall('checkAndOpen', duration);
+    }
+
+    expect(metrics.getMetrics().checkAndOpen).toMatchObject({
+      minMs: 1,
+      maxMs: 100,
+      meanMs: 50.5,
+      p50Ms: 50,
+      p90Ms: 90,
+      p95Ms: 95,
+      p99Ms: 99,
+    });
+  });
+
+  it('records calls rejected before reaching native', async () => {
+    jest.resetModules();
+    const ReactNative = require('react-native');
+    const { createFakeCmSdk } =
+      require('../testing') as typeof import('../testing');
+    ReactNative.__register(createFakeCmSdk());
+    const core = require('../core') as typeof import('../core');
+    const metrics = require('../metrics') as typeof import('../metrics');
+
+    await expect(core.checkAndOpen(false)).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+    });
+
+    expect(metrics.getMetrics().checkAndOpen).toMatchObject({
+      failures: 1,
+      errorCodes: { NOT_INITIALIZED: 1 },
+    });
+  });
+
+  it('notifies onCallComplete listeners', async () => {
+    const { cmp, core, metrics } = load();
+    const completed: CallMetric[] = [];
+    const subscription = metrics.onCallComplete((metric) =>
+      completed.push(metric)
+    );
+    cmp.rejectNext('acceptAll', 'boom');
+
+    await expect(core.acceptAll()).rejects.toThrow('boom');
+    await core.rejectAll();
+    subscription.remove();
+    await core.acceptAll();
+
+    expect(completed).toEqual([
+      expect.objectContaining({
+        method: 'acceptAll',
+        success: false,
+        errorCode: 'CONSENT_ERROR',
+        durationMs: expect.any(Number),
+      }),
+      expect.objectContaining({ method: 'rejectAll', success: true }),
+    ]);
+  });
+
+  it('starts over after resetMetrics', async () => {
+    const { core, metrics } = load();
+    await core.getUserStatus();
+
+    metrics.resetMetrics();
+
+    expect(metrics.getMetrics()).toEqual({});
+  });
+});
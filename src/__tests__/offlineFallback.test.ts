@@ -0,0 +1,165 @@
+/**
+ * Tests for the offline fallback of `resolveConsent`.
+ */
+
+import type { ConsentSnapshot } from '../offlineFallback';
+import { registerFakeCmSdk } from './helpers';
+
+const load = () => {
+  const cmp = registerFakeCmSdk({
+    regulation: 'GDPR',
+    purposes: { c52: 'granted' },
+    consentRequired: false,
+  });
+  return {
+    cmp,
+    core: require('../core') as typeof import('../core'),
+    offline:
+      require('../offlineFallback') as typeof import('../offlineFallback'),
+  };
+};
+
+const snapshot = (savedAt: number): ConsentSnapshot => ({
+  savedAt,
+  resolution: {
+    consentRequired: false,
+    regulation: 'GDPR',
+    userStatus: {
+      status: 'choiceExists',
+      vendors: {},
+      purposes: { c52: 'granted' },
+      tcf: 'CPzHq4APzHq4AAHABBENC',
+      addtlConsent: '',
+      regulation: 'GDPR',
+    },
+  },
+});
+
+describe('offline fallback', () => {
+  it('keeps rejecting while disabled', async () => {
+    const { cmp, core } = load();
+    await core.resolveConsent();
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.resolveConsent()).rejects.toThrow('network down');
+  });
+
+  it('returns the last good resolution flagged stale when offline', async () => {
+    const { cmp, core, offline } = load();
+    offline.enableOfflineFallback();
+    const live = await core.resolveConsent();
+    expect(live.stale).toBeUndefined();
+
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.resolveConsent()).resolves.toEqual({
+      ...live,
+      stale: true,
+      ageMs: expect.any(Number),
+    });
+  });
+
+  it('rejects when there is no snapshot yet', async () => {
+    const { cmp, core, offline } = load();
+    offline.enableOfflineFallback();
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.resolveConsent()).rejects.toMatchObject({
+      code: 'CONSENT_ERROR',
+    });
+  });
+
+  it('reads a persisted snapshot and reports its age', async () => {
+    const { cmp, core, offline } = load();
+    const now = Date.now();
+    offline.enableOfflineFallback({
+      storage: {
+        load: async () => snapshot(now - 60_000),
+        save: jest.fn(async () => {}),
+      },
+    });
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    const stale = await core.resolveConsent();
+
+    expect(stale).toMatchObject({ stale: true, regulation: 'GDPR' });
+    expect(stale.ageMs).toBeGreaterThanOrEqual(60_000);
+  });
+
+  it('persists every live resolution', async () => {
+    const { core, offline } = load();
+    const save = jest.fn(async (_snapshot: ConsentSnapshot) => {});
+    offline.enableOfflineFallback({
+      storage: { load: async () => null, save },
+    });
+
+    const live = await core.resolveConsent();
+
+    expect(save).toHaveBeenCalledWith({
+      savedAt: expect.any(Number),
+      resolution: live,
+    });
+  });
+
+  it('ignores snapshots older than maxAgeMs', async () => {
+    const { cmp, core, offline } = load();
+    offline.enableOfflineFallback({
+      storage: {
+        load: async () => snapshot(Date.now() - 60_000),
+        save: async () => {},
+      },
+      maxAgeMs: 1000,
+    });
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.resolveConsent()).rejects.toThrow('network down');
+  });
+
+  it('lets the policy refuse a stale snapshot per regulation', async () => {
+    const { cmp, core, offline } = load();
+    const acceptStale = jest.fn(
+      (stale: { regulation: string }) => stale.regulation !== 'GDPR'
+    );
+    offline.enableOfflineFallback({ acceptStale });
+    await core.resolveConsent();
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.resolveConsent()).rejects.toThrow('network down');
+    expect(acceptStale).toHaveBeenCalledWith(
+      expect.objectContaining({ stale: true, regulation: 'GDPR' }),
+      expect.objectContaining({ code: 'CONSENT_ERROR' })
+    );
+  });
+
+  it('serves the snapshot when the live resolution is too slow', async () => {
+    const { cmp, core, offline } = load();
+    offline.enableOfflineFallback({ timeoutMs: 10 });
+    await core.resolveConsent();
+    jest
+      .spyOn(cmp, 'isConsentRequired')
+      .mockReturnValueOnce(new Promise(() => {}));
+
+    await expect(core.resolveConsent()).resolves.toMatchObject({
+      stale: true,
+    });
+  });
+
+  it('waits for a slow resolution when there is no snapshot', async () => {
+    const { cmp, core, offline } = load();
+    offline.enableOfflineFallback({ timeoutMs: 1 });
+    const isConsentRequired = cmp.isConsentRequired;
+    jest
+      .spyOn(cmp, 'isConsentRequired')
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve(isConsentRequired()), 20)
+          )
+      );
+
+    const resolution = await core.resolveConsent();
+
+    expect(resolution.stale).toBeUndefined();
+    expect(resolution.consentRequired).toBe(false);
+  });
+});
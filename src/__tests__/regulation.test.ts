@@ -0,0 +1,59 @@
+/**
+ * Tests for the regulation model and its helpers.
+ */
+
+import {
+  getConsentModel,
+  getDefaultConsentStance,
+  normalizeRegulation,
+  requiresDoNotSellLink,
+} from '../regulation';
+
+describe('normalizeRegulation', () => {
+  it.each([
+    ['GDPR', 'GDPR'],
+    ['gdpr', 'GDPR'],
+    [' UK-GDPR ', 'GDPR'],
+    ['CCPA', 'CCPA'],
+    ['cpra', 'CCPA'],
+    ['usca', 'CCPA'],
+    ['USNAT', 'USNAT'],
+    ['us_nat', 'USNAT'],
+    ['USVA', 'US_STATE'],
+    ['US_STATE', 'US_STATE'],
+    ['LGPD', 'LGPD'],
+    ['none', 'NONE'],
+    ['', 'UNKNOWN'],
+    [undefined, 'UNKNOWN'],
+    ['PIPEDA', 'UNKNOWN'],
+  ])('maps %p to %p', (value, expected) => {
+    expect(normalizeRegulation(value)).toBe(expected);
+  });
+});
+
+describe('regulation helpers', () => {
+  it('tells opt-in from opt-out regulations', () => {
+    expect(getConsentModel('GDPR')).toBe('optIn');
+    expect(getConsentModel('lgpd')).toBe('optIn');
+    expect(getConsentModel('CCPA')).toBe('optOut');
+    expect(getConsentModel('USCO')).toBe('optOut');
+    expect(getConsentModel('NONE')).toBeNull();
+    expect(getConsentModel('')).toBeNull();
+  });
+
+  it('requires a Do Not Sell or Share link under US laws only', () => {
+    expect(requiresDoNotSellLink('CCPA')).toBe(true);
+    expect(requiresDoNotSellLink('USNAT')).toBe(true);
+    expect(requiresDoNotSellLink('US_STATE')).toBe(true);
+    expect(requiresDoNotSellLink('GDPR')).toBe(false);
+    expect(requiresDoNotSellLink('UNKNOWN')).toBe(false);
+  });
+
+  it('denies by default unless the regulation allows processing', () => {
+    expect(getDefaultConsentStance('GDPR')).toBe('denied');
+    expect(getDefaultConsentStance('LGPD')).toBe('denied');
+    expect(getDefaultConsentStance('CCPA')).toBe('granted');
+    expect(getDefaultConsentStance('NONE')).toBe('granted');
+    expect(getDefaultConsentStance('')).toBe('denied');
+  });
+});
@@ -31,6 +31,7 @@ jest.mock('react-native', () => {
 
 import { TurboModuleRegistry } from 'react-native';
 import { resolveConsent } from '../index';
+import { readiness } from '../readiness';
 
 const native = TurboModuleRegistry.getEnforcing(
   'CmSdkReactNativeV3'
@@ -50,6 +51,10 @@ const userStatus = {
   regulation: 'GDPR',
 };
 
+beforeAll(() => {
+  readiness.succeed();
+});
+
 describe('resolveConsent', () => {
   beforeEach(() => {
     jest.clearAllMocks();
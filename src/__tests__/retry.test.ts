@@ -0,0 +1,174 @@
+/**
+ * Tests for the retry policy of the network-bound wrappers.
+ */
+
+import type { RetryPolicy } from '../retry';
+import { registerFakeCmSdk } from './helpers';
+
+// Tiny, deterministic delays keep the tests fast.
+const fast: RetryPolicy = { attempts: 3, initialDelayMs: 1, jitter: 0 };
+
+const load = (policy: RetryPolicy | null = fast) => {
+  const cmp = registerFakeCmSdk();
+  const retry = require('../retry') as typeof import('../retry');
+  retry.setRetryPolicy(policy);
+  return {
+    cmp,
+    retry,
+    core: require('../core') as typeof import('../core'),
+  };
+};
+
+describe('retry policy', () => {
+  it('runs once without a policy', async () => {
+    const { cmp, core } = load(null);
+    const isConsentRequired = jest.spyOn(cmp, 'isConsentRequired');
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.isConsentRequired()).rejects.toThrow('network down');
+    expect(isConsentRequired).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a transient failure and emits a retry event', async () => {
+    const { cmp, core, retry } = load();
+    const events = jest.fn();
+    retry.addRetryListener(events);
+    cmp.rejectNext('checkAndOpen', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.checkAndOpen(false)).resolves.toBe(true);
+
+    expect(events).toHaveBeenCalledTimes(1);
+    expect(events).toHaveBeenCalledWith({
+      method: 'checkAndOpen',
+      attempt: 1,
+      delayMs: 1,
+      error: expect.objectContaining({ code: 'CONSENT_ERROR' }),
+    });
+  });
+
+  it('gives up after the configured attempts', async () => {
+    const { cmp, core } = load({ ...fast, attempts: 2 });
+    const forceOpen = jest
+      .spyOn(cmp, 'forceOpen')
+      .mockRejectedValue(
+        Object.assign(new Error('network down'), { code: 'E_CONSENT_ERROR' })
+      );
+
+    await expect(core.forceOpen(false)).rejects.toMatchObject({
+      code: 'CONSENT_ERROR',
+    });
+    expect(forceOpen).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry configuration errors by default', async () => {
+    const { cmp, core } = load();
+    const isConsentRequired = jest.spyOn(cmp, 'isConsentRequired');
+    cmp.rejectNext('isConsentRequired', 'bad id', 'E_CONFIG_ERROR');
+
+    await expect(core.isConsentRequired()).rejects.toMatchObject({
+      code: 'CONFIG_ERROR',
+    });
+    expect(isConsentRequired).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks a custom predicate whether to retry', async () => {
+    const shouldRetry = jest.fn(() => true);
+    const { cmp, core } = load({ ...fast, shouldRetry });
+    cmp.rejectNext('isConsentRequired', 'bad id', 'E_CONFIG_ERROR');
+
+    await expect(core.isConsentRequired()).resolves.toBe(true);
+    expect(shouldRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'CONFIG_ERROR' }),
+      1
+    );
+  });
+
+  it('grows the delay exponentially up to the maximum', async () => {
+    const { cmp, core, retry } = load({
+      attempts: 4,
+      initialDelayMs: 2,
+      backoffFactor: 3,
+      maxDelayMs: 10,
+      jitter: 0,
+    });
+    const delays: number[] = [];
+    retry.addRetryListener((event) => delays.push(event.delayMs));
+    jest
+      .spyOn(cmp, 'checkAndOpen')
+      .mockRejectedValueOnce(new Error('a'))
+      .mockRejectedValueOnce(new Error('b'))
+      .mockRejectedValueOnce(new Error('c'));
+
+    await expect(core.checkAndOpen(false)).resolves.toBe(true);
+    expect(delays).toEqual([2, 6, 10]);
+  });
+
+  it('keeps jittered delays within the configured fraction', async () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+    const { cmp, core, retry } = load({
+      attempts: 2,
+      initialDelayMs: 10,
+      jitter: 0.5,
+    });
+    const delays: number[] = [];
+    retry.addRetryListener((event) => delays.push(event.delayMs));
+    cmp.rejectNext('checkAndOpen', 'flaky');
+
+    await core.checkAndOpen(false);
+    random.mockRestore();
+
+    expect(delays).toEqual([5]);
+  });
+
+  it('rejects with TIMEOUT when the deadline passes mid-attempt', async () => {
+    const { cmp, core } = load({ ...fast, deadlineMs: 20 });
+    jest.spyOn(cmp, 'isConsentRequired').mockReturnValue(new Promise(() => {}));
+
+    await expect(core.resolveConsent()).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      method: 'isConsentRequired',
+    });
+  });
+
+  it('does not retry once the next delay would pass the deadline', async () => {
+    const { cmp, core } = load({
+      attempts: 5,
+      initialDelayMs: 50,
+      jitter: 0,
+      deadlineMs: 20,
+    });
+    const checkAndOpen = jest.spyOn(cmp, 'checkAndOpen');
+    cmp.rejectNext('checkAndOpen', 'flaky');
+
+    await expect(core.checkAndOpen(false)).rejects.toThrow('flaky');
+    expect(checkAndOpen).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries the resolution inside resolveConsent', async () => {
+    const { cmp, core } = load();
+    cmp.rejectNext('isConsentRequired', 'network down', 'E_CONSENT_ERROR');
+
+    await expect(core.resolveConsent()).resolves.toMatchObject({
+      consentRequired: true,
+    });
+  });
+
+  it('retries the status read inside resolveConsent', async () => {
+    const { cmp, core, retry } = load();
+    const events = jest.fn();
+    retry.addRetryListener(events);
+    const getUserStatus = jest.spyOn(cmp, 'getUserStatus');
+    cmp.rejectNext('getUserStatus', 'status unavailable', 'E_STATUS_ERROR');
+
+    await expect(core.resolveConsent()).resolves.toMatchObject({
+      userStatus: { status: 'choiceDoesntExist' },
+    });
+    expect(getUserStatus).toHaveBeenCalledTimes(2);
+    expect(events).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'resolveConsent',
+        error: expect.objectContaining({ code: 'STATUS_ERROR' }),
+      })
+    );
+  });
+});
@@ -2,19 +2,6 @@
  * Jest setup file for mocking React Native modules
  */
 
-jest.mock('react-native', () => ({
-  TurboModuleRegistry: {
-    getEnforcing: jest.fn(() => ({})),
-  },
-  NativeModules: {},
-  NativeEventEmitter: jest.fn(() => ({
-    addListener: jest.fn(),
-    removeListeners: jest.fn(),
-  })),
-  Platform: {
-    OS: 'ios',
-    select: jest.fn((obj) => obj.ios),
-  },
-  processColor: jest.fn((color) => color),
-}));
-
+// Uses src/__mocks__/react-native.ts; files that need a different native
+// module or platform override it with their own `jest.mock`.
+jest.mock('react-native');
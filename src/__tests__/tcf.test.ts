@@ -0,0 +1,155 @@
+/**
+ * Tests for `decodeTCString`.
+ *
+ * Strings are built field by field from the TCF v2 layout so each assertion
+ * maps to a known input.
+ */
+
+import { decodeTCString, TCRestrictionType } from '../tcf';
+
+const BASE64_URL =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const bits = (value: number, length: number) =>
+  value.toString(2).padStart(length, '0');
+const bitField = (ids: number[], length: number) =>
+  Array.from({ length }, (_, i) => (ids.includes(i + 1) ? '1' : '0')).join('');
+const letters = (code: string) =>
+  bits(code.charCodeAt(0) - 65, 6) + bits(code.charCodeAt(1) - 65, 6);
+const ranges = (entries: Array<[number, number?]>) =>
+  bits(entries.length, 12) +
+  entries
+    .map(([start, end]) =>
+      end === undefined
+        ? '0' + bits(start, 16)
+        : '1' + bits(start, 16) + bits(end, 16)
+    )
+    .join('');
+const encode = (bitString: string) => {
+  const padded = bitString.padEnd(Math.ceil(bitString.length / 6) * 6, '0');
+  let out = '';
+  for (let i = 0; i < padded.length; i += 6) {
+    out += BASE64_URL[parseInt(padded.slice(i, i + 6), 2)];
+  }
+  return out;
+};
+
+const created = Date.UTC(2024, 0, 15, 10, 30);
+const updated = Date.UTC(2024, 5, 1, 8, 0);
+
+const coreBits = ({ version = 2 } = {}) =>
+  [
+    bits(version, 6),
+    bits(created / 100, 36),
+    bits(updated / 100, 36),
+    bits(10, 12), // cmpId
+    bits(3, 12), // cmpVersion
+    bits(1, 6), // consentScreen
+    letters('EN'),
+    bits(48, 12), // vendorListVersion
+    bits(4, 6), // policyVersion
+    '1', // isServiceSpecific
+    '0', // useNonStandardTexts
+    bitField([1], 12),
+    bitField([1, 3, 10], 24),
+    bitField([2, 7], 24),
+    '0', // purposeOneTreatment
+    letters('DE'),
+    // Vendor consents as a bit field.
+    bits(8, 16) + '0' + bitField([2, 8], 8),
+    // Vendor legitimate interests as ranges.
+    bits(30, 16) + '1' + ranges([[10, 12], [30]]),
+    // One publisher restriction.
+    bits(1, 12) + bits(2, 6) + bits(1, 2) + ranges([[5, 6]]),
+  ].join('');
+
+const disclosedVendorsBits = () =>
+  bits(1, 3) + bits(5, 16) + '0' + bitField([1, 5], 5);
+
+describe('decodeTCString', () => {
+  it('decodes the core segment', () => {
+    expect(decodeTCString(encode(coreBits()))).toEqual({
+      version: 2,
+      created: new Date(created),
+      lastUpdated: new Date(updated),
+      cmpId: 10,
+      cmpVersion: 3,
+      consentScreen: 1,
+      consentLanguage: 'EN',
+      vendorListVersion: 48,
+      policyVersion: 4,
+      isServiceSpecific: true,
+      useNonStandardTexts: false,
+      specialFeatureOptIns: [1],
+      purposeConsents: [1, 3, 10],
+      purposeLegitimateInterests: [2, 7],
+      purposeOneTreatment: false,
+      publisherCountryCode: 'DE',
+      vendorConsents: [2, 8],
+      vendorLegitimateInterests: [10, 11, 12, 30],
+      publisherRestrictions: [
+        {
+          purposeId: 2,
+          restrictionType: TCRestrictionType.RequireConsent,
+          vendorIds: [5, 6],
+        },
+      ],
+      disclosedVendors: undefined,
+    });
+  });
+
+  it('decodes the disclosed-vendors segment', () => {
+    const tcString = `${encode(coreBits())}.${encode(disclosedVendorsBits())}`;
+
+    expect(decodeTCString(tcString).disclosedVendors).toEqual([1, 5]);
+  });
+
+  it('ignores segments it does not decode', () => {
+    const publisherTC = encode(bits(3, 3) + bits(0, 48) + bits(0, 6));
+    const tcString = `${encode(coreBits())}.${publisherTC}`;
+
+    expect(decodeTCString(tcString).disclosedVendors).toBeUndefined();
+  });
+
+  it('rejects an empty string', () => {
+    expect(() => decodeTCString('')).toThrow(/string is empty/);
+  });
+
+  it('rejects versions other than 2', () => {
+    expect(() => decodeTCString(encode(coreBits({ version: 1 })))).toThrow(
+      /unsupported version 1/
+    );
+  });
+
+  it('rejects a truncated string', () => {
+    expect(() => decodeTCString(encode(coreBits()).slice(0, 20))).toThrow(
+      /truncated/
+    );
+  });
+
+  it('rejects vendor ranges beyond maxVendorId', () => {
+    const outOfBounds = coreBits().replace(
+      bits(30, 16) + '1' + ranges([[10, 12], [30]]),
+      bits(30, 16) + '1' + ranges([[10, 65535]])
+    );
+
+    expect(() => decodeTCString(encode(outOfBounds))).toThrow(
+      /range 10-65535 is outside 1-30/
+    );
+  });
+
+  it('rejects publisher restrictions listing too many vendors', () => {
+    const restrictions = coreBits().replace(
+      bits(1, 12) + bits(2, 6) + bits(1, 2) + ranges([[5, 6]]),
+      bits(2, 12) + (bits(2, 6) + bits(1, 2) + ranges([[1, 65535]])).repeat(2)
+    );
+
+    expect(() => decodeTCString(encode(restrictions))).toThrow(
+      /ranges cover too many vendor ids/
+    );
+  });
+
+  it('rejects characters outside base64url', () => {
+    expect(() => decodeTCString('CP+/')).toThrow(/unexpected character/);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for the in-memory fake published as the `testing` subpath, driven
+ * through the package wrappers the way an app test would use it.
+ */
+
+import type { FakeCmSdkOptions } from '../testing';
+
+// The wrappers cache the status per module instance, so every test registers
+// a new fake and loads fresh wrappers on top of it.
+const load = (options?: FakeCmSdkOptions, { ready = true } = {}) => {
+  jest.resetModules();
+  if (ready) require('../readiness').readiness.succeed();
+  const ReactNative = require('react-native');
+  const testing = require('../testing') as typeof import('../testing');
+  const cmp = testing.createFakeCmSdk(options);
+  ReactNative.__register(cmp);
+  return {
+    cmp,
+    testing,
+    sdk: require('../core') as typeof import('../core'),
+  };
+};
+
+const seeded = {
+  purposes: { c52: 'choiceDoesntExist', c53: 'choiceDoesntExist' },
+  vendors: { s2789: 'choiceDoesntExist' },
+} as const;
+
+describe('createFakeCmSdk', () => {
+  it('grants everything it knows about on acceptAll', async () => {
+    const { sdk } = load(seeded);
+
+    await sdk.acceptAll();
+
+    await expect(sdk.getUserStatus()).resolves.toMatchObject({
+      status: 'choiceExists',
+      purposes: { c52: 'granted', c53: 'granted' },
+      vendors: { s2789: 'granted' },
+    });
+    await expect(sdk.isConsentRequired()).resolves.toBe(false);
+  });
+
+  it('denies only the listed purposes on rejectPurposes', async () => {
+    const { sdk } = load(seeded);
+    await sdk.acceptAll();
+
+    await sdk.rejectPurposes(['c53'], true);
+
+    await expect(sdk.getStatusForPurpose('c52')).resolves.toBe('granted');
+    await expect(sdk.getStatusForPurpose('c53')).resolves.toBe('denied');
+  });
+
+  it('round-trips exported CMP info', async () => {
+    const { cmp, sdk } = load(seeded);
+    await sdk.acceptVendors(['s2789']);
+    const exported = await sdk.exportCMPInfo();
+
+    await sdk.resetConsentManagementData();
+    expect(cmp.getState()).toMatchObject({
+      status: 'choiceDoesntExist',
+      vendors: { s2789: 'choiceDoesntExist' },
+      consentRequired: true,
+    });
+
+    await sdk.importCMPInfo(exported);
+    await expect(sdk.getStatusForVendor('s2789')).resolves.toBe('granted');
+  });
+
+  it('rejects an import it did not export with E_IMPORT_ERROR', async () => {
+    const { sdk } = load();
+
+    await expect(sdk.importCMPInfo('not-json')).rejects.toMatchObject({
+      code: 'IMPORT_ERROR',
+      nativeCode: 'E_IMPORT_ERROR',
+    });
+  });
+
+  it('fails the next call registered with rejectNext', async () => {
+    const { cmp, sdk } = load();
+    cmp.rejectNext('checkAndOpen', 'No network', 'E_INIT_ERROR');
+
+    await expect(sdk.checkAndOpen(false)).rejects.toMatchObject({
+      code: 'INIT_ERROR',
+      message: 'No network',
+    });
+    await expect(sdk.checkAndOpen(false)).resolves.toBe(true);
+  });
+
+  it('opens the layer only while consent is required', async () => {
+    const { sdk } = load({ consentRequired: false });
+    const shown = jest.fn();
+    sdk.addShowConsentLayerListener(shown);
+
+    await expect(sdk.checkAndOpen(false)).resolves.toBe(false);
+    await expect(sdk.forceOpen(true)).resolves.toBe(true);
+
+    expect(shown).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores the initial state on reset', async () => {
+    const { cmp, sdk } = load(seeded);
+    await sdk.acceptAll();
+
+    cmp.reset();
+
+    expect(cmp.getState().purposes).toEqual(seeded.purposes);
+  });
+
+  it('keeps the readiness guard until a URL config is set', async () => {
+    const { sdk } = load(seeded, { ready: false });
+
+    await expect(sdk.getUserStatus()).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+    });
+
+    await sdk.setUrlConfig({
+      id: 'test',
+      domain: 'delivery.consentmanager.net',
+      language: 'EN',
+      appName: 'Test',
+    });
+    await expect(sdk.getUserStatus()).resolves.toMatchObject({
+      status: 'choiceDoesntExist',
+    });
+  });
+});
+
+describe('simulate helpers', () => {
+  it('applies a decision, notifies listeners and closes the layer', async () => {
+    const { cmp, sdk } = load(seeded);
+    const received = jest.fn();
+    const closed = jest.fn();
+    sdk.addConsentListener(received);
+    sdk.addCloseConsentLayerListener(closed);
+    await sdk.checkAndOpen(false);
+
+    cmp.simulateConsentReceived({
+      purposes: { c52: 'granted' },
+      tcf: 'CPzHq4APzHq4AAHABBENC',
+    });
+
+    expect(received).toHaveBeenCalledWith(
+      'CPzHq4APzHq4AAHABBENC',
+      expect.objectContaining({ purposes: expect.any(Object) })
+    );
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(cmp.getState().layerVisible).toBe(false);
+    await expect(sdk.getUserStatus()).resolves.toMatchObject({
+      purposes: { c52: 'granted', c53: 'choiceDoesntExist' },
+    });
+  });
+
+  it('refreshes a cached status after a simulated decision', async () => {
+    const { cmp, sdk } = load(seeded);
+    await sdk.getUserStatus();
+
+    cmp.simulateConsentReceived('rejectAll');
+
+    await expect(sdk.getUserStatus()).resolves.toMatchObject({
+      purposes: { c52: 'denied', c53: 'denied' },
+    });
+  });
+
+  it('emits errors, layer and link events', () => {
+    const { cmp, sdk } = load();
+    const events: string[] = [];
+    sdk.addErrorListener((error) => events.push(`error:${error}`));
+    sdk.addShowConsentLayerListener(() => events.push('shown'));
+    sdk.addCloseConsentLayerListener(() => events.push('closed'));
+    sdk.addClickLinkListener((url) => events.push(`link:${url}`));
+
+    cmp.simulateLayerShown();
+    cmp.simulateLinkClick('https://example.com/privacy');
+    cmp.simulateError('Timeout');
+    cmp.simulateLayerClosed();
+
+    expect(events).toEqual([
+      'shown',
+      'link:https://example.com/privacy',
+      'error:Timeout',
+      'closed',
+    ]);
+  });
+
+  it('reports the previous ATT status on a change', () => {
+    const { cmp, sdk } = load();
+    const listener = jest.fn();
+    sdk.addATTStatusChangeListener(listener);
+
+    cmp.simulateATTStatusChange(3);
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ oldStatus: 0, newStatus: 3 })
+    );
+  });
+});
+
+describe('getFakeCmSdk', () => {
+  it('returns the registered fake', () => {
+    const { cmp, testing } = load();
+
+    expect(testing.getFakeCmSdk()).toBe(cmp);
+  });
+
+  it('throws when the native module is not a fake', () => {
+    const { testing } = load();
+    require('react-native').__register({});
+
+    expect(() => testing.getFakeCmSdk()).toThrow(/is not a fake/);
+  });
+});
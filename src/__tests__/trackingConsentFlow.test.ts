@@ -0,0 +1,162 @@
+/**
+ * Tests for the ATT and consent layer flow, driven through the in-memory fake.
+ */
+
+import { ATTStatus } from '../NativeCmSdkReactNativeV3';
+import { registerFakeCmSdk, settle } from './helpers';
+
+const load = (options: { os?: string; consentRequired?: boolean } = {}) => {
+  const cmp = registerFakeCmSdk({
+    purposes: { c52: 'choiceDoesntExist' },
+    consentRequired: options.consentRequired ?? true,
+  });
+  const ReactNative = require('react-native');
+  ReactNative.Platform.OS = options.os ?? 'ios';
+  const { runTrackingConsentFlow } =
+    require('../trackingConsentFlow') as typeof import('../trackingConsentFlow');
+  return { cmp, runTrackingConsentFlow };
+};
+
+describe('runTrackingConsentFlow', () => {
+  it('shows the consent layer before the ATT prompt with cmpFirst', async () => {
+    const { cmp, runTrackingConsentFlow } = load();
+    const steps: string[] = [];
+    jest.spyOn(cmp, 'checkAndOpen').mockImplementation(async () => {
+      steps.push('layer');
+      cmp.simulateLayerShown();
+      return true;
+    });
+    const requestATT = jest.fn(async () => {
+      steps.push('att');
+      return ATTStatus.Authorized;
+    });
+
+    const flow = runTrackingConsentFlow({ order: 'cmpFirst', requestATT });
+    await settle();
+    expect(requestATT).not.toHaveBeenCalled();
+    cmp.simulateConsentReceived('acceptAll');
+
+    await expect(flow).resolves.toEqual({
+      att: { skipped: false, status: ATTStatus.Authorized },
+      consent: {
+        required: true,
+        layerShown: true,
+        userStatus: expect.objectContaining({
+          purposes: { c52: 'granted' },
+        }),
+      },
+    });
+    expect(steps).toEqual(['layer', 'att']);
+    expect(cmp.getState().attStatus).toBe(ATTStatus.Authorized);
+  });
+
+  it('requests ATT before opening the layer with attFirst', async () => {
+    const { cmp, runTrackingConsentFlow } = load();
+    const checkAndOpen = jest.spyOn(cmp, 'checkAndOpen');
+    const requestATT = jest.fn(async () => {
+      expect(checkAndOpen).not.toHaveBeenCalled();
+      return ATTStatus.Denied;
+    });
+
+    const flow = runTrackingConsentFlow({ order: 'attFirst', requestATT });
+    await settle();
+    expect(cmp.getState().attStatus).toBe(ATTStatus.Denied);
+    cmp.simulateConsentReceived('rejectAll');
+
+    await expect(flow).resolves.toMatchObject({
+      att: { status: ATTStatus.Denied },
+      consent: { layerShown: true },
+    });
+  });
+
+  it('reports the status from didChangeATTStatus events', async () => {
+    const { cmp, runTrackingConsentFlow } = load();
+
+    const flow = runTrackingConsentFlow({
+      order: 'attFirst',
+      requestATT: async () => ATTStatus.Authorized,
+    });
+    await settle();
+    cmp.simulateATTStatusChange(ATTStatus.Restricted);
+    cmp.simulateConsentReceived('acceptAll');
+
+    await expect(flow).resolves.toMatchObject({
+      att: { status: ATTStatus.Restricted },
+    });
+  });
+
+  it('does not open the layer when consent is not required', async () => {
+    const { cmp, runTrackingConsentFlow } = load({ consentRequired: false });
+    const checkAndOpen = jest.spyOn(cmp, 'checkAndOpen');
+
+    await expect(
+      runTrackingConsentFlow({
+        order: 'cmpFirst',
+        requestATT: async () => ATTStatus.Authorized,
+      })
+    ).resolves.toMatchObject({
+      consent: { required: false, layerShown: false },
+    });
+    expect(checkAndOpen).not.toHaveBeenCalled();
+  });
+
+  it('moves on when checkAndOpen resolves without showing the layer', async () => {
+    const { cmp, runTrackingConsentFlow } = load();
+    jest.spyOn(cmp, 'checkAndOpen').mockResolvedValue(true);
+    const requestATT = jest.fn(async () => ATTStatus.Authorized);
+
+    await expect(
+      runTrackingConsentFlow({
+        order: 'cmpFirst',
+        requestATT,
+        layerShowTimeoutMs: 10,
+      })
+    ).resolves.toMatchObject({
+      att: { status: ATTStatus.Authorized },
+      consent: { required: true, layerShown: false },
+    });
+    expect(requestATT).toHaveBeenCalled();
+  });
+
+  it('rejects when the layer stays open past layerTimeoutMs', async () => {
+    const { runTrackingConsentFlow } = load();
+    const requestATT = jest.fn(async () => ATTStatus.Authorized);
+
+    await expect(
+      runTrackingConsentFlow({
+        order: 'cmpFirst',
+        requestATT,
+        layerTimeoutMs: 10,
+      })
+    ).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      method: 'runTrackingConsentFlow',
+    });
+    expect(requestATT).not.toHaveBeenCalled();
+  });
+
+  it('skips the ATT step on Android', async () => {
+    const { cmp, runTrackingConsentFlow } = load({ os: 'android' });
+    const setATTStatus = jest.spyOn(cmp, 'setATTStatus');
+    const requestATT = jest.fn(async () => ATTStatus.Authorized);
+
+    const flow = runTrackingConsentFlow({ order: 'attFirst', requestATT });
+    await settle();
+    cmp.simulateConsentReceived('acceptAll');
+
+    await expect(flow).resolves.toMatchObject({
+      att: { skipped: true, status: null },
+      consent: { layerShown: true },
+    });
+    expect(requestATT).not.toHaveBeenCalled();
+    expect(setATTStatus).not.toHaveBeenCalled();
+  });
+
+  it('rejects when setATTStatus rejects the requested status', async () => {
+    const { runTrackingConsentFlow } = load();
+
+    await expect(
+      runTrackingConsentFlow({ order: 'attFirst', requestATT: async () => 7 })
+    ).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for the JS-side validation of `UrlConfig`.
+ */
+
+import type { UrlConfig } from '../NativeCmSdkReactNativeV3';
+import { validateUrlConfig } from '../urlConfigValidation';
+import { registerFakeCmSdk } from './helpers';
+
+const valid: UrlConfig = {
+  id: 'f5e3b73592c3c',
+  domain: 'delivery.consentmanager.net',
+  language: 'EN',
+  appName: 'MyApp',
+};
+
+const fields = (config: UrlConfig) =>
+  validateUrlConfig(config).map((issue) => issue.field);
+
+describe('validateUrlConfig', () => {
+  it('accepts a complete, valid config', () => {
+    expect(
+      validateUrlConfig({
+        ...valid,
+        language: 'de',
+        webViewConnectionTimeoutMillis: 0,
+        forceRegulation: 'LGPD',
+        jsonConfig: '{"tabs":false}',
+      })
+    ).toEqual([]);
+  });
+
+  it.each([['gdpr'], ['usnat'], ['Lgpd']])(
+    'accepts the regulation %p in any case',
+    (forceRegulation) => {
+      expect(validateUrlConfig({ ...valid, forceRegulation })).toEqual([]);
+    }
+  );
+
+  it.each([
+    ['an empty id', { id: '  ' }, 'id'],
+    ['an id with punctuation', { id: 'your-cmp-id' }, 'id'],
+    ['a domain with a scheme', { domain: 'https://cmp.example.com' }, 'domain'],
+    ['a domain with a path', { domain: 'cmp.example.com/x' }, 'domain'],
+    ['a language that is not ISO 639-1', { language: 'English' }, 'language'],
+    ['an unknown language code', { language: 'xx' }, 'language'],
+    [
+      'a negative timeout',
+      { webViewConnectionTimeoutMillis: -1 },
+      'webViewConnectionTimeoutMillis',
+    ],
+    [
+      'a fractional timeout',
+      { webViewConnectionTimeoutMillis: 1.5 },
+      'webViewConnectionTimeoutMillis',
+    ],
+    ['an unknown regulation', { forceRegulation: 'gdpr2' }, 'forceRegulation'],
+    ['invalid JSON', { jsonConfig: '{tabs:false}' }, 'jsonConfig'],
+  ])('reports %s', (_name, override, field) => {
+    expect(fields({ ...valid, ...override })).toEqual([field]);
+  });
+
+  it('suggests the hostname when a scheme is included', () => {
+    expect(
+      validateUrlConfig({ ...valid, domain: 'https://cmp.example.com/path' })
+    ).toEqual([
+      {
+        field: 'domain',
+        message: 'must be a hostname without a scheme, e.g. "cmp.example.com"',
+      },
+    ]);
+  });
+
+  it('returns every problem at once', () => {
+    expect(
+      fields({
+        id: '',
+        domain: 'http://x',
+        language: 'english',
+        appName: 'MyApp',
+        jsonConfig: 'nope',
+      })
+    ).toEqual(['id', 'domain', 'language', 'jsonConfig']);
+  });
+});
+
+describe('setUrlConfig validation', () => {
+  const load = () => {
+    const cmp = registerFakeCmSdk(undefined, { ready: false });
+    return { cmp, core: require('../core') as typeof import('../core') };
+  };
+
+  it('rejects before calling native with all issues attached', async () => {
+    const { cmp, core } = load();
+    const setUrlConfig = jest.spyOn(cmp, 'setUrlConfig');
+
+    await expect(
+      core.setUrlConfig({
+        ...valid,
+        domain: 'https://x.net',
+        language: 'EN-US',
+      })
+    ).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      method: 'setUrlConfig',
+      message: expect.stringMatching(/^Invalid UrlConfig: domain .*; language/),
+      issues: [
+        expect.objectContaining({ field: 'domain' }),
+        expect.objectContaining({ field: 'language' }),
+      ],
+    });
+    expect(setUrlConfig).not.toHaveBeenCalled();
+  });
+
+  it('leaves consent calls rejecting as not initialized', async () => {
+    const { core } = load();
+
+    await core.setUrlConfig({ ...valid, id: '' }).catch(() => {});
+
+    await expect(core.acceptAll()).rejects.toMatchObject({
+      code: 'NOT_INITIALIZED',
+    });
+    expect(require('../readiness').readiness.getState()).toBe('idle');
+  });
+
+  it('keeps the applied config ready when a new one is invalid', async () => {
+    const { core } = load();
+    await core.setUrlConfig(valid);
+
+    await expect(core.setUrlConfig({ ...valid, id: '' })).rejects.toMatchObject(
+      { code: 'INVALID_ARGUMENT' }
+    );
+
+    expect(require('../readiness').readiness.getState()).toBe('ready');
+    await expect(core.acceptAll()).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for partial WebView config updates and the named presets.
+ */
+
+import { BackgroundStyle, WebViewPosition } from '../NativeCmSdkReactNativeV3';
+import { registerFakeCmSdk } from './helpers';
+
+// The applied config and the preset registry are module state.
+const load = () => {
+  const cmp = registerFakeCmSdk();
+  return {
+    cmp,
+    core: require('../core') as typeof import('../core'),
+    presets: require('../webViewPresets') as typeof import('../webViewPresets'),
+  };
+};
+
+describe('updateWebViewConfig', () => {
+  it('keeps the fields of the last applied config', async () => {
+    const { cmp, core } = load();
+    await core.setWebViewConfig({
+      position: WebViewPosition.HalfScreenBottom,
+      backgroundStyle: BackgroundStyle.blur(),
+      darkMode: true,
+    });
+
+    await core.updateWebViewConfig({ cornerRadius: 24 });
+
+    expect(core.getWebViewConfig()).toEqual({
+      position: 'halfScreenBottom',
+      backgroundStyle: { type: 'blur', blurEffectStyle: 'dark' },
+      darkMode: true,
+      cornerRadius: 24,
+    });
+    expect(cmp.getState().webViewConfig).toMatchObject({
+      position: 'halfScreenBottom',
+      backgroundStyle: { type: 'blur' },
+      darkMode: true,
+      cornerRadius: 24,
+    });
+  });
+
+  it('applies concurrent updates one after the other', async () => {
+    const { core } = load();
+
+    await Promise.all([
+      core.updateWebViewConfig({ cornerRadius: 8 }),
+      core.updateWebViewConfig({ darkMode: true }),
+    ]);
+
+    expect(core.getWebViewConfig()).toEqual({
+      cornerRadius: 8,
+      darkMode: true,
+    });
+  });
+
+  it('keeps the previous config when native rejects', async () => {
+    const { cmp, core } = load();
+    await core.setWebViewConfig({ cornerRadius: 8 });
+    cmp.rejectNext('setWebViewConfig', 'bad config', 'E_CONFIG_ERROR');
+
+    await expect(core.updateWebViewConfig({ darkMode: true })).rejects.toThrow(
+      'bad config'
+    );
+    await core.updateWebViewConfig({ respectsSafeArea: false });
+
+    expect(core.getWebViewConfig()).toEqual({
+      cornerRadius: 8,
+      respectsSafeArea: false,
+    });
+  });
+
+  it('returns null before any config was applied', () => {
+    const { core } = load();
+
+    expect(core.getWebViewConfig()).toBeNull();
+  });
+});
+
+describe('WebView presets', () => {
+  it('applies a built-in preset by name', async () => {
+    const { cmp, core, presets } = load();
+
+    await presets.applyWebViewPreset('bottomSheet', { darkMode: true });
+
+    expect(core.getWebViewConfig()).toMatchObject({
+      position: 'halfScreenBottom',
+      darkMode: true,
+    });
+    expect(cmp.getState().webViewConfig).toMatchObject({
+      position: 'halfScreenBottom',
+      cornerRadius: 20,
+    });
+  });
+
+  it('centers the card on the current window', () => {
+    const { presets } = load();
+    require('react-native').__setWindow(400, 800);
+
+    expect(presets.getWebViewPreset('centeredCard')).toMatchObject({
+      position: 'custom',
+      customRect: { x: 16, y: 120, width: 368, height: 560 },
+    });
+  });
+
+  it('lets teams register and replace presets', async () => {
+    const { core, presets } = load();
+    presets.registerWebViewPreset('brandSheet', { cornerRadius: 28 });
+    presets.registerWebViewPreset('fullscreenModal', () => ({
+      cornerRadius: 2,
+    }));
+
+    await presets.applyWebViewPreset('brandSheet');
+    expect(core.getWebViewConfig()).toEqual({ cornerRadius: 28 });
+    expect(presets.getWebViewPreset('fullscreenModal')).toEqual({
+      cornerRadius: 2,
+    });
+    expect(presets.getWebViewPresetNames()).toEqual([
+      'bottomSheet',
+      'fullscreenModal',
+      'centeredCard',
+      'brandSheet',
+    ]);
+  });
+
+  it('rejects an unknown preset name', async () => {
+    const { presets } = load();
+
+    await expect(presets.applyWebViewPreset('nope')).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      method: 'applyWebViewPreset',
+    });
+  });
+});
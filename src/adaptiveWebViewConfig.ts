@@ -0,0 +1,188 @@
+/**
+ * Opt-in WebView config that follows the system theme and the window size.
+ *
+ * While enabled, the library listens to `Appearance` and `Dimensions` and
+ * re-applies the config whenever the color scheme, size or orientation
+ * changes: `darkMode` (plus an optional dark variant) follows the theme, and
+ * the position follows the device class and orientation.
+ */
+
+import { Appearance, Dimensions, type ScaledSize } from 'react-native';
+import {
+  getWebViewConfig,
+  setWebViewConfig,
+  WebViewPosition,
+  type WebViewConfig,
+} from './core';
+import { centeredCardRect } from './centeredCard';
+import { logWarning } from './logger';
+
+/**
+ * What an adaptive layout is computed from.
+ */
+export type WebViewEnvironment = {
+  colorScheme: 'light' | 'dark';
+  /** Window size in density-independent pixels. */
+  width: number;
+  height: number;
+  orientation: 'portrait' | 'landscape';
+  /** True when the shorter window side is at least 600 dp. */
+  isTablet: boolean;
+};
+
+export type AdaptiveWebViewConfigOptions = {
+  /**
+   * Config the adaptive fields are applied on top of. Defaults to the config
+   * applied when adaptive mode is first enabled (`getWebViewConfig()`).
+   */
+  base?: WebViewConfig;
+  /** Set `darkMode` from the system theme. Defaults to true. */
+  followColorScheme?: boolean;
+  /** Extra fields applied in dark mode, e.g. a darker `backgroundStyle`. */
+  dark?: Partial<WebViewConfig>;
+  /**
+   * Position fields for the current environment. Defaults to
+   * `responsiveWebViewLayout`; pass `false` to keep the base position.
+   */
+  layout?:
+    ((environment: WebViewEnvironment) => Partial<WebViewConfig>) | false;
+};
+
+const TABLET_MIN_SIDE = 600;
+
+/**
+ * Reads the current color scheme and window size.
+ *
+ * @param window - Window size to use instead of `Dimensions.get('window')`
+ * @returns The environment adaptive layouts are computed from
+ */
+export const getWebViewEnvironment = (
+  window: ScaledSize = Dimensions.get('window')
+): WebViewEnvironment => ({
+  colorScheme: Appearance.getColorScheme() === 'dark' ? 'dark' : 'light',
+  width: window.width,
+  height: window.height,
+  orientation: window.width > window.height ? 'landscape' : 'portrait',
+  isTablet: Math.min(window.width, window.height) >= TABLET_MIN_SIDE,
+});
+
+/**
+ * Default adaptive layout: a bottom half-screen sheet on phones in portrait,
+ * and a card centered in `environment`'s window (the `centeredCard` geometry)
+ * on tablets and in landscape.
+ *
+ * @param environment - Current theme and window size
+ * @returns Position fields to apply
+ */
+export const responsiveWebViewLayout = (
+  environment: WebViewEnvironment
+): Partial<WebViewConfig> => {
+  if (!environment.isTablet && environment.orientation === 'portrait') {
+    return {
+      position: WebViewPosition.HalfScreenBottom,
+      customRect: undefined,
+    };
+  }
+  return {
+    position: WebViewPosition.Custom,
+    customRect: centeredCardRect(environment.width, environment.height),
+  };
+};
+
+let options: AdaptiveWebViewConfigOptions | null = null;
+let base: WebViewConfig = {};
+let unsubscribe: (() => void) | null = null;
+let lastApplied: string | null = null;
+// Changes are applied in order, so the newest environment always wins.
+let applying: Promise<void> = Promise.resolve();
+
+const configFor = (
+  current: AdaptiveWebViewConfigOptions,
+  environment: WebViewEnvironment
+): WebViewConfig => {
+  const {
+    followColorScheme = true,
+    dark,
+    layout = responsiveWebViewLayout,
+  } = current;
+  const isDark = environment.colorScheme === 'dark';
+  return {
+    ...base,
+    ...(layout ? layout(environment) : {}),
+    ...(followColorScheme ? { darkMode: isDark } : {}),
+    ...(isDark && dark ? dark : {}),
+  };
+};
+
+const apply = (window?: ScaledSize): Promise<void> => {
+  const current = options;
+  if (!current) return applying;
+  const config = configFor(current, getWebViewEnvironment(window));
+  const key = JSON.stringify(config);
+  if (key === lastApplied) return applying;
+  lastApplied = key;
+
+  applying = applying
+    .catch(() => {})
+    .then(() => setWebViewConfig(config))
+    .catch((error) => {
+      lastApplied = null;
+      throw error;
+    });
+  return applying;
+};
+
+const reapply = (window?: ScaledSize) => {
+  apply(window).catch((error) => {
+    logWarning('Could not re-apply the adaptive WebView config.', error);
+  });
+};
+
+/**
+ * Starts following the system theme and the window size. Calling it again
+ * replaces the options. While enabled, the adaptive mode owns the config: use
+ * `base` (or enable it again) to change the fields it does not adapt.
+ *
+ * @param next - Base config, dark variant and layout
+ * @returns Promise that resolves once the config for the current environment
+ *   is applied
+ *
+ * @example
+ * ```typescript
+ * await enableAdaptiveWebViewConfig({
+ *   base: { cornerRadius: 16, backgroundStyle: BackgroundStyle.dimmed() },
+ *   dark: { backgroundStyle: BackgroundStyle.blur(BlurEffectStyle.Dark) },
+ * });
+ * ```
+ */
+export const enableAdaptiveWebViewConfig = (
+  next: AdaptiveWebViewConfigOptions = {}
+): Promise<void> => {
+  // Re-enabling keeps the base unless a new one is given; the applied config
+  // already contains the adaptive fields by then.
+  base = next.base ?? (options ? base : (getWebViewConfig() ?? {}));
+  options = next;
+  lastApplied = null;
+
+  if (!unsubscribe) {
+    const appearance = Appearance.addChangeListener(() => reapply());
+    const dimensions = Dimensions.addEventListener('change', ({ window }) =>
+      reapply(window)
+    );
+    unsubscribe = () => {
+      appearance.remove();
+      dimensions.remove();
+    };
+  }
+  return apply();
+};
+
+/**
+ * Stops following the theme and window size. The config applied last stays.
+ */
+export const disableAdaptiveWebViewConfig = (): void => {
+  unsubscribe?.();
+  unsubscribe = null;
+  options = null;
+  lastApplied = null;
+};
@@ -0,0 +1,127 @@
+/**
+ * Parser for Google's Additional Consent Mode string (`UserStatus.addtlConsent`).
+ *
+ * The string lists Google Ad Tech Providers (ATPs) that are not registered with
+ * the IAB, e.g. `1~89.2008.2072` or, in version 2,
+ * `2~89.2008~dv.5.2072`.
+ *
+ * @see https://support.google.com/admanager/answer/9681920
+ */
+
+import { getUserStatus } from './core';
+
+/**
+ * Parsed Additional Consent string.
+ */
+export type AdditionalConsent = {
+  /** Specification version, `1` or `2`. */
+  version: number;
+  /** ATP ids the user consented to, in ascending order. */
+  consentedProviders: number[];
+  /**
+   * ATP ids disclosed to the user, in ascending order. Version 1 strings do not
+   * carry this section, so it is empty for them.
+   */
+  disclosedProviders: number[];
+};
+
+const DISCLOSED_PREFIX = 'dv.';
+
+const invalid = (reason: string): Error =>
+  new Error(
+    `[cm-sdk-react-native-v3-new-arch] Invalid addtlConsent string: ${reason}`
+  );
+
+const parseIds = (section: string): number[] => {
+  if (section === '') return [];
+  return section
+    .split('.')
+    .map((part) => {
+      if (!/^\d+$/.test(part)) {
+        throw invalid(`"${part}" is not a provider id`);
+      }
+      return Number(part);
+    })
+    .sort((a, b) => a - b);
+};
+
+/**
+ * Parses an Additional Consent string such as `UserStatus.addtlConsent`.
+ *
+ * @param addtlConsent - The string, e.g. from `getUserStatus().addtlConsent`
+ * @throws Error if the string is empty, malformed or of an unknown version
+ * @returns The spec version with consented and disclosed provider ids
+ *
+ * @example
+ * ```typescript
+ * parseAdditionalConsent('2~89.2008~dv.5.2072');
+ * // { version: 2, consentedProviders: [89, 2008], disclosedProviders: [5, 2072] }
+ * ```
+ */
+export const parseAdditionalConsent = (
+  addtlConsent: string
+): AdditionalConsent => {
+  const value = addtlConsent.trim();
+  if (!value) {
+    throw invalid('string is empty');
+  }
+
+  const [versionPart = '', consented = '', disclosed, ...rest] =
+    value.split('~');
+  const version = Number(versionPart);
+
+  switch (version) {
+    case 1:
+      if (disclosed !== undefined) {
+        throw invalid('version 1 has a single section');
+      }
+      return {
+        version,
+        consentedProviders: parseIds(consented),
+        disclosedProviders: [],
+      };
+    case 2:
+      if (rest.length > 0) {
+        throw invalid('too many sections');
+      }
+      if (disclosed !== undefined && !disclosed.startsWith(DISCLOSED_PREFIX)) {
+        throw invalid(
+          `disclosed section must start with "${DISCLOSED_PREFIX}"`
+        );
+      }
+      return {
+        version,
+        consentedProviders: parseIds(consented),
+        disclosedProviders: parseIds(
+          disclosed?.slice(DISCLOSED_PREFIX.length) ?? ''
+        ),
+      };
+    default:
+      throw invalid(`unsupported version ${versionPart}`);
+  }
+};
+
+/**
+ * Checks whether the user consented to a Google Ad Tech Provider that is not
+ * part of the IAB framework.
+ *
+ * Reads the current `getUserStatus()` snapshot. An empty `addtlConsent` means
+ * no consent.
+ *
+ * @param providerId - The Google ATP id (e.g., 89)
+ * @returns Promise resolving to true if the provider is consented
+ *
+ * @example
+ * ```typescript
+ * const allowed = await hasAdditionalConsent(89);
+ * ```
+ */
+export const hasAdditionalConsent = async (
+  providerId: number
+): Promise<boolean> => {
+  const { addtlConsent } = await getUserStatus();
+  if (!addtlConsent.trim()) return false;
+  return parseAdditionalConsent(addtlConsent).consentedProviders.includes(
+    providerId
+  );
+};
@@ -0,0 +1,32 @@
+/**
+ * Geometry of the `centeredCard` layout, shared by the preset and the
+ * adaptive WebView config.
+ */
+
+import type { WebViewRect } from './NativeCmSdkReactNativeV3';
+
+const CARD_MAX_WIDTH = 480;
+const CARD_MAX_HEIGHT = 640;
+const CARD_MARGIN = 16;
+
+/**
+ * Centers a card of at most 480 x 640 dp in a window, keeping a 16 dp side
+ * margin and at most 70% of the window height.
+ *
+ * @param width - Window width in density-independent pixels
+ * @param height - Window height in density-independent pixels
+ * @returns Rect to use as `customRect`
+ */
+export const centeredCardRect = (
+  width: number,
+  height: number
+): WebViewRect => {
+  const cardWidth = Math.min(width - 2 * CARD_MARGIN, CARD_MAX_WIDTH);
+  const cardHeight = Math.min(height * 0.7, CARD_MAX_HEIGHT);
+  return {
+    x: Math.round((width - cardWidth) / 2),
+    y: Math.round((height - cardHeight) / 2),
+    width: Math.round(cardWidth),
+    height: Math.round(cardHeight),
+  };
+};
@@ -0,0 +1,226 @@
+/**
+ * Opt-in local history of consent changes on this device.
+ *
+ * Helps demonstrate when and how consent was given (GDPR Art. 7(1)). Every
+ * decision in the consent layer and every consent-changing wrapper call is
+ * recorded with its source, the regulation and a SHA-256 hash of the TCF
+ * string. Nothing is recorded until `enableConsentAudit()` is called.
+ */
+
+import { addConsentListener, consentStore, getUserStatus } from './core';
+import {
+  addConsentOperationListener,
+  type ConsentOperation,
+  type ConsentOperationName,
+} from './consentOperations';
+import { logWarning } from './logger';
+import type { UserStatus } from './NativeCmSdkReactNativeV3';
+import { sha256 } from './sha256';
+
+/**
+ * How a change was made: in the consent layer, by an app call, or by
+ * `importCMPInfo`.
+ */
+export type ConsentAuditSource = 'layer' | 'programmatic' | 'import';
+
+/** `didReceiveConsent` for layer decisions, otherwise the wrapper name. */
+export type ConsentAuditOperation = 'didReceiveConsent' | ConsentOperationName;
+
+export type ConsentAuditEntry = {
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+  operation: ConsentAuditOperation;
+  source: ConsentAuditSource;
+  /** Regulation reported right after the change; may be empty. */
+  regulation: string;
+  /** Hex SHA-256 of the TCF string, or `''` when there is none. */
+  tcfHash: string;
+  /** Vendor or purpose ids for the targeted calls. */
+  ids?: string[];
+};
+
+/**
+ * Where entries are kept. `load` returns them oldest first; `save` replaces
+ * them all. Back it with AsyncStorage, MMKV or a file to keep the history
+ * across launches.
+ */
+export type ConsentAuditStorage = {
+  load: () => Promise<ConsentAuditEntry[]>;
+  save: (entries: ConsentAuditEntry[]) => Promise<void>;
+};
+
+export type ConsentAuditOptions = {
+  /** Defaults to `createMemoryAuditStorage()`, which forgets on restart. */
+  storage?: ConsentAuditStorage;
+  /** Oldest entries are dropped beyond this count. Defaults to 500. */
+  maxEntries?: number;
+};
+
+export type ConsentAuditQuery = {
+  /** Only entries at or after this time (ms since the epoch). */
+  since?: number;
+  /** Only entries at or before this time (ms since the epoch). */
+  until?: number;
+  source?: ConsentAuditSource;
+  operation?: ConsentAuditOperation;
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Storage that keeps entries in memory for the lifetime of the JS runtime.
+ */
+export const createMemoryAuditStorage = (): ConsentAuditStorage => {
+  let entries: ConsentAuditEntry[] = [];
+  return {
+    load: async () => [...entries],
+    save: async (next) => {
+      entries = [...next];
+    },
+  };
+};
+
+let storage: ConsentAuditStorage | null = null;
+let stopRecording: (() => void) | null = null;
+// Entries are appended one at a time so concurrent changes never overwrite
+// each other in storage.
+let writes: Promise<void> = Promise.resolve();
+
+const sourceOf = (name: ConsentOperationName): ConsentAuditSource =>
+  name === 'importCMPInfo' ? 'import' : 'programmatic';
+
+const hashTcf = (tcf: string) => (tcf ? sha256(tcf) : '');
+
+const append = (
+  target: ConsentAuditStorage,
+  maxEntries: number,
+  entry: Promise<ConsentAuditEntry>
+) => {
+  writes = writes
+    .then(async () => {
+      const entries = await target.load();
+      entries.push(await entry);
+      await target.save(entries.slice(-maxEntries));
+    })
+    .catch((error) => {
+      logWarning('Could not write the consent audit log.', error);
+    });
+};
+
+// A failed status read still leaves an entry; only the details are missing.
+const readStatus = (read: () => Promise<UserStatus>) =>
+  read().catch(() => null);
+
+/**
+ * Starts recording consent changes. Calling it again replaces the options.
+ *
+ * @param options - Storage and retention
+ *
+ * @example
+ * ```typescript
+ * enableConsentAudit({
+ *   storage: {
+ *     load: async () =>
+ *       JSON.parse((await AsyncStorage.getItem('consent-audit')) ?? '[]'),
+ *     save: (entries) =>
+ *       AsyncStorage.setItem('consent-audit', JSON.stringify(entries)),
+ *   },
+ * });
+ * ```
+ */
+export const enableConsentAudit = (options: ConsentAuditOptions = {}): void => {
+  disableConsentAudit();
+  const target = options.storage ?? createMemoryAuditStorage();
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  storage = target;
+
+  const removeOperationListener = addConsentOperationListener(
+    (operation: ConsentOperation) => {
+      const timestamp = Date.now();
+      append(
+        target,
+        maxEntries,
+        readStatus(getUserStatus).then((status) => ({
+          timestamp,
+          operation: operation.name,
+          source: sourceOf(operation.name),
+          regulation: status?.regulation ?? '',
+          tcfHash: hashTcf(status?.tcf ?? ''),
+          ...(operation.ids && { ids: [...operation.ids] }),
+        }))
+      );
+    }
+  );
+
+  const layerSubscription = addConsentListener((consent) => {
+    const timestamp = Date.now();
+    append(
+      target,
+      maxEntries,
+      // The event carries the TCF string; the regulation needs a fresh read.
+      readStatus(consentStore.refresh).then((status) => ({
+        timestamp,
+        operation: 'didReceiveConsent',
+        source: 'layer',
+        regulation: status?.regulation ?? '',
+        tcfHash: hashTcf(consent),
+      }))
+    );
+  });
+
+  stopRecording = () => {
+    removeOperationListener();
+    layerSubscription.remove();
+  };
+};
+
+/**
+ * Stops recording. Entries already stored are kept.
+ */
+export const disableConsentAudit = (): void => {
+  stopRecording?.();
+  stopRecording = null;
+};
+
+/**
+ * Reads recorded entries, oldest first, after pending writes have finished.
+ *
+ * @param query - Optional time range, source and operation filters
+ * @returns Matching entries; empty if the audit log was never enabled
+ */
+export const getConsentAuditLog = async (
+  query: ConsentAuditQuery = {}
+): Promise<ConsentAuditEntry[]> => {
+  await writes;
+  if (!storage) return [];
+  const entries = await storage.load();
+  return entries.filter(
+    (entry) =>
+      (query.since === undefined || entry.timestamp >= query.since) &&
+      (query.until === undefined || entry.timestamp <= query.until) &&
+      (query.source === undefined || entry.source === query.source) &&
+      (query.operation === undefined || entry.operation === query.operation)
+  );
+};
+
+/**
+ * Serializes the recorded entries for a data subject request or support
+ * ticket.
+ *
+ * @param query - Same filters as `getConsentAuditLog`
+ * @returns JSON with `exportedAt` (ISO 8601) and `entries`
+ */
+export const exportConsentAuditLog = async (
+  query: ConsentAuditQuery = {}
+): Promise<string> => {
+  const entries = await getConsentAuditLog(query);
+  return JSON.stringify({ exportedAt: new Date().toISOString(), entries });
+};
+
+/**
+ * Deletes every recorded entry from the configured storage.
+ */
+export const clearConsentAuditLog = async (): Promise<void> => {
+  await writes;
+  await storage?.save([]);
+};
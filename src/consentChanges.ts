@@ -0,0 +1,138 @@
+/**
+ * What changed between two consent snapshots.
+ *
+ * `addConsentListener` only passes the new consent string along. The helpers
+ * here compare consecutive `UserStatus` snapshots from `consentStore`, so a
+ * listener learns which purposes and vendors were granted or revoked.
+ */
+
+import type { EmitterSubscription } from 'react-native';
+import { consentStore } from './core';
+import type { UserStatus } from './NativeCmSdkReactNativeV3';
+
+/**
+ * Difference between two `UserStatus` snapshots.
+ *
+ * An id counts as granted when it became `granted`, and as revoked when it was
+ * `granted` and no longer is (denied, reset or missing).
+ */
+export type ConsentChange = {
+  previous: UserStatus;
+  current: UserStatus;
+  grantedPurposes: string[];
+  revokedPurposes: string[];
+  grantedVendors: string[];
+  revokedVendors: string[];
+  /** Set when the regulation changed, e.g. from `''` to `GDPR`. */
+  regulation: { from: string; to: string } | null;
+  tcfChanged: boolean;
+};
+
+const diffGrants = (
+  previous: Record<string, string>,
+  current: Record<string, string>
+) => {
+  const ids = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  const granted: string[] = [];
+  const revoked: string[] = [];
+  ids.forEach((id) => {
+    const was = previous[id] === 'granted';
+    const is = current[id] === 'granted';
+    if (!was && is) granted.push(id);
+    if (was && !is) revoked.push(id);
+  });
+  return { granted: granted.sort(), revoked: revoked.sort() };
+};
+
+/**
+ * Compares two snapshots.
+ *
+ * @param previous - Older snapshot
+ * @param current - Newer snapshot
+ * @returns The change, or `null` when neither grants, regulation nor the TCF
+ * string differ
+ */
+export const diffUserStatus = (
+  previous: UserStatus,
+  current: UserStatus
+): ConsentChange | null => {
+  const purposes = diffGrants(previous.purposes, current.purposes);
+  const vendors = diffGrants(previous.vendors, current.vendors);
+  const regulation =
+    previous.regulation === current.regulation
+      ? null
+      : { from: previous.regulation, to: current.regulation };
+  const tcfChanged = previous.tcf !== current.tcf;
+
+  if (
+    !purposes.granted.length &&
+    !purposes.revoked.length &&
+    !vendors.granted.length &&
+    !vendors.revoked.length &&
+    !regulation &&
+    !tcfChanged
+  ) {
+    return null;
+  }
+
+  return {
+    previous,
+    current,
+    grantedPurposes: purposes.granted,
+    revokedPurposes: purposes.revoked,
+    grantedVendors: vendors.granted,
+    revokedVendors: vendors.revoked,
+    regulation,
+    tcfChanged,
+  };
+};
+
+/**
+ * Registers a listener called with what changed whenever consent changes,
+ * through the consent layer or through the wrappers (`acceptAll`,
+ * `importCMPInfo`, ...).
+ *
+ * The baseline is a fresh read from native started when the listener
+ * registers, not the cached snapshot, so changes made before registration are
+ * never reported. When that read fails, e.g. because the listener registers
+ * before `initialize()`, the next successful read becomes the baseline. While a
+ * listener is registered the status is re-read after every consent change.
+ *
+ * @param callback - Function called with the difference to the last snapshot
+ * @returns Subscription that should be removed on cleanup
+ *
+ * @example
+ * ```typescript
+ * const subscription = addConsentChangeListener((change) => {
+ *   if (change.revokedVendors.includes('s2789')) {
+ *     analytics.shutdown();
+ *   }
+ * });
+ * ```
+ */
+export const addConsentChangeListener = (
+  callback: (change: ConsentChange) => void
+): Pick<EmitterSubscription, 'remove'> => {
+  let previous: UserStatus | null = null;
+
+  const unsubscribe = consentStore.subscribe(() => {
+    const current = consentStore.getSnapshot();
+    if (!current) return;
+    // The first snapshot read after registration is the baseline, also when
+    // the read below failed (e.g. before `initialize()`). Listeners only run
+    // while subscribed, so nothing is reported after `remove()`.
+    if (!previous) {
+      previous = current;
+      return;
+    }
+    const change = diffUserStatus(previous, current);
+    previous = current;
+    if (change) callback(change);
+  });
+
+  // Its snapshot reaches the subscriber above, like every later read. A
+  // failed read leaves the baseline to the next one that succeeds.
+  consentStore.refresh().catch(() => {});
+
+  return { remove: unsubscribe };
+};
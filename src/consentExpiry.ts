@@ -0,0 +1,167 @@
+/**
+ * Consent expiry: periodic re-prompting based on the age of the TCF string.
+ *
+ * The native SDK only re-opens the layer when the CMP says consent is
+ * required. Regulators expect consent to be refreshed periodically (the TCF
+ * policy suggests 13 months), and a new Global Vendor List can warrant asking
+ * again. The policy reads `lastUpdated` and `vendorListVersion` from the TCF
+ * string and decides when the layer should be forced open.
+ */
+
+import { checkAndOpen, forceOpen, getUserStatus } from './core';
+import { decodeTCString } from './tcf';
+
+export type ConsentExpiryPolicy = {
+  /** Consent older than this many days is expired, e.g. `390` (13 months). */
+  maxAgeDays?: number;
+  /**
+   * Treat consent as expired when it was given for an older Global Vendor
+   * List than `vendorListVersion`.
+   */
+  rePromptOnVendorListChange?: boolean;
+  /**
+   * Current Global Vendor List version, or a function resolving it (e.g. from
+   * your CMP backend). Required for `rePromptOnVendorListChange`.
+   */
+  vendorListVersion?: number | (() => number | Promise<number>);
+};
+
+/**
+ * Age of the stored consent, read from the TCF string.
+ */
+export type ConsentAge = {
+  /** When the consent was last updated (`TCString.lastUpdated`). */
+  lastUpdated: Date;
+  ageMs: number;
+  /** Whole days since `lastUpdated`. */
+  ageDays: number;
+  /** Global Vendor List version the consent was given for. */
+  vendorListVersion: number;
+};
+
+export type ConsentExpiryReason = 'maxAge' | 'vendorListChanged';
+
+export type ConsentExpiry = {
+  expired: boolean;
+  /** Why consent is expired; null when it is not. */
+  reason: ConsentExpiryReason | null;
+  /** Null when there is no (decodable) TCF string. */
+  age: ConsentAge | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let policy: ConsentExpiryPolicy | null = null;
+
+/**
+ * Sets the expiry policy used by `isConsentExpired`, `getConsentExpiry` and
+ * `checkAndOpenWithExpiry`. Pass `null` to remove it.
+ *
+ * @param next - Maximum age and vendor list rules
+ *
+ * @example
+ * ```typescript
+ * setConsentExpiryPolicy({
+ *   maxAgeDays: 390,
+ *   rePromptOnVendorListChange: true,
+ *   vendorListVersion: () => fetchGvlVersion(),
+ * });
+ * ```
+ */
+export const setConsentExpiryPolicy = (
+  next: ConsentExpiryPolicy | null
+): void => {
+  policy = next;
+};
+
+/**
+ * Reads how old the stored consent is.
+ *
+ * @returns The age, or null without a TCF string (no decision yet, or a
+ *   regulation without TCF) or when it cannot be decoded
+ */
+export const getConsentAge = async (): Promise<ConsentAge | null> => {
+  const { tcf } = await getUserStatus();
+  if (!tcf) return null;
+
+  let decoded;
+  try {
+    decoded = decodeTCString(tcf);
+  } catch {
+    return null;
+  }
+  const ageMs = Math.max(Date.now() - decoded.lastUpdated.getTime(), 0);
+  return {
+    lastUpdated: decoded.lastUpdated,
+    ageMs,
+    ageDays: Math.floor(ageMs / DAY_MS),
+    vendorListVersion: decoded.vendorListVersion,
+  };
+};
+
+/**
+ * Applies the expiry policy to the stored consent. Without a policy or a TCF
+ * string, consent never counts as expired.
+ *
+ * @returns Whether consent is expired, why, and its age
+ */
+export const getConsentExpiry = async (): Promise<ConsentExpiry> => {
+  const current = policy;
+  const age = await getConsentAge();
+  if (!current || !age) return { expired: false, reason: null, age };
+
+  if (
+    current.maxAgeDays !== undefined &&
+    age.ageMs > current.maxAgeDays * DAY_MS
+  ) {
+    return { expired: true, reason: 'maxAge', age };
+  }
+
+  if (
+    current.rePromptOnVendorListChange &&
+    current.vendorListVersion !== undefined
+  ) {
+    const latest =
+      typeof current.vendorListVersion === 'function'
+        ? await current.vendorListVersion()
+        : current.vendorListVersion;
+    if (latest > age.vendorListVersion) {
+      return { expired: true, reason: 'vendorListChanged', age };
+    }
+  }
+
+  return { expired: false, reason: null, age };
+};
+
+/**
+ * Whether the stored consent is expired under the current policy.
+ *
+ * @returns true if the layer should be shown again
+ */
+export const isConsentExpired = async (): Promise<boolean> =>
+  (await getConsentExpiry()).expired;
+
+/**
+ * `checkAndOpen` that honors the expiry policy: expired consent opens the layer
+ * with `forceOpen`, otherwise the CMP decides as usual.
+ *
+ * @param jumpToSettings - Open the settings page instead of the first page
+ * @returns Whether the layer was shown and the expiry verdict behind it
+ *
+ * @example
+ * ```typescript
+ * const { layerShown, expiry } = await checkAndOpenWithExpiry();
+ * if (expiry.reason === 'vendorListChanged') {
+ *   analytics.track('consent_reprompt_gvl');
+ * }
+ * ```
+ */
+export const checkAndOpenWithExpiry = async (
+  jumpToSettings: boolean = false
+): Promise<{ layerShown: boolean; expiry: ConsentExpiry }> => {
+  const expiry = await getConsentExpiry();
+  const layerShown = expiry.expired
+    ? await forceOpen(jumpToSettings)
+    : await checkAndOpen(jumpToSettings);
+  return { layerShown, expiry };
+};
@@ -0,0 +1,41 @@
+/**
+ * Internal notifications for wrapper calls that changed consent.
+ *
+ * `core` reports every successful consent-changing call here so features such
+ * as the audit log can observe them without wrapping the wrappers. Not part of
+ * the public API.
+ */
+
+export type ConsentOperationName =
+  | 'acceptAll'
+  | 'rejectAll'
+  | 'acceptVendors'
+  | 'rejectVendors'
+  | 'acceptPurposes'
+  | 'rejectPurposes'
+  | 'importCMPInfo'
+  | 'resetConsentManagementData';
+
+export type ConsentOperation = {
+  name: ConsentOperationName;
+  /** Vendor or purpose ids passed to the call, if any. */
+  ids?: string[];
+};
+
+const listeners = new Set<(operation: ConsentOperation) => void>();
+
+/**
+ * @returns Function that removes the listener
+ */
+export const addConsentOperationListener = (
+  listener: (operation: ConsentOperation) => void
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notifyConsentOperation = (operation: ConsentOperation) => {
+  listeners.forEach((listener) => listener(operation));
+};
@@ -0,0 +1,187 @@
+/**
+ * Per-user consent profiles for apps with account switching.
+ *
+ * Consent is device-global in the native SDK, so on a shared device the next
+ * user would inherit the previous user's choices. The profile manager saves
+ * `exportCMPInfo()` under the user's key when they log out or switch away and
+ * restores it with `importCMPInfo()` when they log in again. A user without a
+ * saved profile starts from `resetConsentManagementData()`.
+ */
+
+import {
+  exportCMPInfo,
+  importCMPInfo,
+  resetConsentManagementData,
+} from './core';
+
+/**
+ * Where profiles are kept, keyed by user id. Back it with secure storage:
+ * exported CMP info contains the user's consent strings.
+ */
+export type ConsentProfileStorage = {
+  load: (userId: string) => Promise<string | null>;
+  save: (userId: string, cmpInfo: string) => Promise<void>;
+  remove: (userId: string) => Promise<void>;
+};
+
+/**
+ * Emitted after each profile switch.
+ */
+export type ConsentProfileSwitch = {
+  /** User whose profile was active before, or null. */
+  from: string | null;
+  /** User whose profile is active now, or null after `logout`. */
+  to: string | null;
+  /**
+   * `restored` when a saved profile was imported, `reset` when consent data was
+   * cleared (new user, or logout), `kept` when it was left as it was (the same
+   * user logged in again, or logout with `resetOnLogout: false`).
+   */
+  outcome: 'restored' | 'reset' | 'kept';
+};
+
+export type ConsentProfileManagerOptions = {
+  /** Defaults to `createMemoryProfileStorage()`, which forgets on restart. */
+  storage?: ConsentProfileStorage;
+  /**
+   * User the consent data on the device currently belongs to, e.g. restored
+   * from your session on app start. Defaults to null (anonymous).
+   */
+  currentUserId?: string | null;
+  /**
+   * Clear consent data on `logout` so the next user starts fresh. Defaults to
+   * true.
+   */
+  resetOnLogout?: boolean;
+};
+
+export type ConsentProfileManager = {
+  /**
+   * Saves the active user's profile (if any) and restores the given user's, or
+   * resets consent data when they have none. Switching users is a login.
+   */
+  login: (userId: string) => Promise<ConsentProfileSwitch>;
+  /** Saves the active user's profile and, by default, resets consent data. */
+  logout: () => Promise<ConsentProfileSwitch>;
+  /** Saves the active user's current consent without switching. */
+  saveProfile: () => Promise<void>;
+  /** Deletes a user's saved profile, e.g. when the account is deleted. */
+  deleteProfile: (userId: string) => Promise<void>;
+  getCurrentUserId: () => string | null;
+  /** Registers a listener called after each switch. */
+  addProfileSwitchListener: (
+    listener: (event: ConsentProfileSwitch) => void
+  ) => {
+    remove: () => void;
+  };
+};
+
+/**
+ * Storage that keeps profiles in memory for the lifetime of the JS runtime.
+ */
+export const createMemoryProfileStorage = (): ConsentProfileStorage => {
+  const profiles = new Map<string, string>();
+  return {
+    load: async (userId) => profiles.get(userId) ?? null,
+    save: async (userId, cmpInfo) => {
+      profiles.set(userId, cmpInfo);
+    },
+    remove: async (userId) => {
+      profiles.delete(userId);
+    },
+  };
+};
+
+/**
+ * Creates a profile manager. Create one per app and call `login` / `logout`
+ * from your authentication flow.
+ *
+ * @param options - Storage, the user on the device now and logout behavior
+ * @returns The profile manager
+ *
+ * @example
+ * ```typescript
+ * const profiles = createConsentProfileManager({
+ *   storage: {
+ *     load: (userId) => SecureStore.getItemAsync(`consent.${userId}`),
+ *     save: (userId, info) => SecureStore.setItemAsync(`consent.${userId}`, info),
+ *     remove: (userId) => SecureStore.deleteItemAsync(`consent.${userId}`),
+ *   },
+ *   currentUserId: session?.userId ?? null,
+ * });
+ *
+ * profiles.addProfileSwitchListener(({ outcome }) => {
+ *   if (outcome === 'reset') checkAndOpen(false);
+ * });
+ *
+ * await profiles.login('user-b');
+ * ```
+ */
+export const createConsentProfileManager = (
+  options: ConsentProfileManagerOptions = {}
+): ConsentProfileManager => {
+  const storage = options.storage ?? createMemoryProfileStorage();
+  const resetOnLogout = options.resetOnLogout ?? true;
+  const listeners = new Set<(event: ConsentProfileSwitch) => void>();
+  let currentUserId = options.currentUserId ?? null;
+  // Switches run one after the other so a profile is never saved under the
+  // wrong user.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.catch(() => {}).then(task);
+    queue = run;
+    return run;
+  };
+
+  const save = async () => {
+    if (currentUserId === null) return;
+    await storage.save(currentUserId, await exportCMPInfo());
+  };
+
+  const switched = (event: ConsentProfileSwitch) => {
+    currentUserId = event.to;
+    listeners.forEach((listener) => listener(event));
+    return event;
+  };
+
+  return {
+    login: (userId) =>
+      serialized(async () => {
+        const from = currentUserId;
+        if (from === userId) {
+          return { from, to: userId, outcome: 'kept' } as const;
+        }
+        await save();
+        const profile = await storage.load(userId);
+        if (profile) {
+          await importCMPInfo(profile);
+          return switched({ from, to: userId, outcome: 'restored' });
+        }
+        await resetConsentManagementData();
+        return switched({ from, to: userId, outcome: 'reset' });
+      }),
+    logout: () =>
+      serialized(async () => {
+        const from = currentUserId;
+        await save();
+        if (resetOnLogout) await resetConsentManagementData();
+        return switched({
+          from,
+          to: null,
+          outcome: resetOnLogout ? 'reset' : 'kept',
+        });
+      }),
+    saveProfile: () => serialized(save),
+    deleteProfile: (userId) => serialized(() => storage.remove(userId)),
+    getCurrentUserId: () => currentUserId,
+    addProfileSwitchListener: (listener) => {
+      listeners.add(listener);
+      return {
+        remove: () => {
+          listeners.delete(listener);
+        },
+      };
+    },
+  };
+};
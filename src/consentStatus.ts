@@ -0,0 +1,93 @@
+/**
+ * Runtime normalization of consent status values read from native.
+ *
+ * The spec types these reads as plain strings, and the native SDKs pass
+ * through whatever their CMP reports. `core` maps every value onto
+ * `ConsentStatusValue` / `UserChoiceStatus` here, so an exhaustive `switch`
+ * over them is safe. Values outside those unions are reported and read as
+ * `choiceDoesntExist`, never passed through. Not part of the public API.
+ */
+
+import type {
+  ConsentStatusValue,
+  NativeUserStatus,
+  UserChoiceStatus,
+  UserStatus,
+} from './NativeCmSdkReactNativeV3';
+
+/**
+ * Receives a value that could not be mapped, with where it was read.
+ */
+export type UnknownStatusReporter = (value: unknown, source: string) => void;
+
+// The exact values both native modules emit. Anything else, including other
+// spellings of the same status, is reported rather than guessed at.
+const CONSENT_STATUSES: ReadonlySet<string> = new Set<ConsentStatusValue>([
+  'granted',
+  'denied',
+  'choiceDoesntExist',
+]);
+
+const USER_CHOICE_STATUSES: ReadonlySet<string> = new Set<UserChoiceStatus>([
+  'choiceExists',
+  'choiceDoesntExist',
+]);
+
+/**
+ * Maps a purpose or vendor status onto `ConsentStatusValue`.
+ *
+ * @returns The status; `choiceDoesntExist` (after reporting it) when unknown
+ */
+export const normalizeConsentStatus = (
+  value: unknown,
+  source: string,
+  report: UnknownStatusReporter
+): ConsentStatusValue => {
+  if (typeof value === 'string' && CONSENT_STATUSES.has(value)) {
+    return value as ConsentStatusValue;
+  }
+  report(value, source);
+  return 'choiceDoesntExist';
+};
+
+const normalizeUserChoice = (
+  value: unknown,
+  source: string,
+  report: UnknownStatusReporter
+): UserChoiceStatus => {
+  if (typeof value === 'string' && USER_CHOICE_STATUSES.has(value)) {
+    return value as UserChoiceStatus;
+  }
+  report(value, source);
+  return 'choiceDoesntExist';
+};
+
+const normalizeStatusMap = (
+  statuses: { [key: string]: string } | undefined,
+  source: string,
+  report: UnknownStatusReporter
+) =>
+  Object.fromEntries(
+    Object.entries(statuses ?? {}).map(([id, value]) => [
+      id,
+      normalizeConsentStatus(value, `${source}.${id}`, report),
+    ])
+  );
+
+/**
+ * Maps every status in a native `UserStatus` onto the typed unions.
+ */
+export const normalizeUserStatus = (
+  raw: NativeUserStatus,
+  report: UnknownStatusReporter
+): UserStatus => {
+  const { hasUserChoice, ...rest } = raw;
+  const status = normalizeUserChoice(raw.status, 'status', report);
+  return {
+    ...rest,
+    status,
+    ...(hasUserChoice !== undefined && { hasUserChoice: status }),
+    vendors: normalizeStatusMap(raw.vendors, 'vendors', report),
+    purposes: normalizeStatusMap(raw.purposes, 'purposes', report),
+  };
+};
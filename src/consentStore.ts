@@ -0,0 +1,123 @@
+/**
+ * Cached `UserStatus` snapshot shared by every reader in the app.
+ *
+ * The bridge wrappers invalidate it after each call that can change consent,
+ * and it refreshes once per invalidation no matter how many readers ask.
+ */
+
+import type { UserStatus } from './NativeCmSdkReactNativeV3';
+
+/**
+ * Public surface of the consent store. Shaped for `useSyncExternalStore`:
+ *
+ * ```tsx
+ * const status = useSyncExternalStore(
+ *   consentStore.subscribe,
+ *   consentStore.getSnapshot
+ * );
+ * ```
+ */
+export type ConsentStore = {
+  /** Last snapshot read from native, or `null` before the first read. */
+  getSnapshot: () => UserStatus | null;
+  /**
+   * Registers a listener called whenever the snapshot changes.
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+  /** Reads a fresh snapshot from native, joining a read already in flight. */
+  refresh: () => Promise<UserStatus>;
+};
+
+type ConsentStoreOptions = {
+  /** Reads the snapshot from native. */
+  read: () => Promise<UserStatus>;
+  /**
+   * Starts watching for consent changes made outside the wrappers (the
+   * consent layer). Called once, on first use.
+   */
+  watch: (invalidate: () => void) => void;
+};
+
+/**
+ * Internal handle used by the wrappers on top of the public surface.
+ */
+export type ConsentStoreHandle = ConsentStore & {
+  /** Returns the cached snapshot when fresh, otherwise refreshes. */
+  get: () => Promise<UserStatus>;
+  /** Marks the snapshot stale; refreshes right away if anyone is subscribed. */
+  invalidate: () => void;
+};
+
+export const createConsentStore = ({
+  read,
+  watch,
+}: ConsentStoreOptions): ConsentStoreHandle => {
+  const listeners = new Set<() => void>();
+  let snapshot: UserStatus | null = null;
+  // Bumped on every invalidation; a read is fresh if it started at the
+  // current generation.
+  let generation = 0;
+  let snapshotGeneration = -1;
+  let inFlight: { generation: number; promise: Promise<UserStatus> } | null =
+    null;
+  let watching = false;
+
+  const ensureWatching = () => {
+    if (watching) return;
+    watching = true;
+    watch(invalidate);
+  };
+
+  const refresh = (): Promise<UserStatus> => {
+    ensureWatching();
+    if (inFlight && inFlight.generation === generation) {
+      return inFlight.promise;
+    }
+
+    const startedAt = generation;
+    const promise = read().then((status) => {
+      // An older read finishing late must not replace a newer snapshot.
+      if (startedAt >= snapshotGeneration) {
+        snapshot = status;
+        snapshotGeneration = startedAt;
+        listeners.forEach((listener) => listener());
+      }
+      return status;
+    });
+    const entry = { generation: startedAt, promise };
+    inFlight = entry;
+    const clear = () => {
+      if (inFlight === entry) inFlight = null;
+    };
+    promise.then(clear, clear);
+    return promise;
+  };
+
+  const invalidate = () => {
+    generation++;
+    if (listeners.size > 0) {
+      // Subscribers need the new state; failures surface on the next read.
+      refresh().catch(() => {});
+    }
+  };
+
+  const get = (): Promise<UserStatus> => {
+    if (snapshot && snapshotGeneration === generation) {
+      return Promise.resolve(snapshot);
+    }
+    return refresh();
+  };
+
+  const subscribe = (listener: () => void) => {
+    ensureWatching();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getSnapshot = () => snapshot;
+
+  return { getSnapshot, subscribe, refresh, get, invalidate };
+};
@@ -0,0 +1,362 @@
+/**
+ * Cross-device consent sync.
+ *
+ * A user who already decided on the website or on another device should not be
+ * asked again in the app. The sync engine keeps one record per user on a
+ * server of your choice through a `ConsentSyncAdapter`: it pushes
+ * `exportCMPInfo()` after every local decision and imports the remote record
+ * with `importCMPInfo()` when it is newer than the local consent.
+ */
+
+import {
+  addConsentListener,
+  consentStore,
+  exportCMPInfo,
+  getUserStatus,
+  importCMPInfo,
+} from './core';
+import { addConsentOperationListener } from './consentOperations';
+import { logWarning } from './logger';
+import type { UserStatus } from './NativeCmSdkReactNativeV3';
+import { decodeTCString } from './tcf';
+
+/**
+ * Consent details pushed alongside the CMP string.
+ */
+export type ConsentSyncStatus = {
+  /** When the consent was last changed (ms since the epoch). */
+  updatedAt: number;
+  userStatus: UserStatus;
+};
+
+/**
+ * A user's consent as stored on the server.
+ */
+export type ConsentSyncRecord = {
+  /** String from `exportCMPInfo()`, passed to `importCMPInfo()`. */
+  cmpString: string;
+  status: ConsentSyncStatus;
+};
+
+/**
+ * Connects the sync engine to your backend.
+ */
+export type ConsentSyncAdapter = {
+  /** Resolves the user's record, or null when the server has none. */
+  pull: (userId: string) => Promise<ConsentSyncRecord | null>;
+  push: (
+    userId: string,
+    cmpString: string,
+    status: ConsentSyncStatus
+  ) => Promise<void>;
+};
+
+export type ConsentSyncOptions = {
+  adapter: ConsentSyncAdapter;
+  /**
+   * User to sync, or a function returning it. Nothing is synced while it is
+   * null, e.g. before login.
+   */
+  userId: string | null | (() => string | null);
+  /**
+   * Push after every local decision (`didReceiveConsent` and the consent
+   * methods). Defaults to true; when false, only `sync()` and `push()` upload.
+   */
+  pushOnChange?: boolean;
+};
+
+/**
+ * What `sync()` did: `pulled` imported the remote record, `pushed` uploaded
+ * the local consent, `inSync` changed nothing, `skipped` ran without a user.
+ */
+export type ConsentSyncResult = {
+  outcome: 'pulled' | 'pushed' | 'inSync' | 'skipped';
+  /** Null when there is no local decision. */
+  localUpdatedAt: number | null;
+  /** Null when the server has no record. */
+  remoteUpdatedAt: number | null;
+};
+
+export type ConsentSyncEngine = {
+  /** Reconciles local and remote consent; the newer one wins. */
+  sync: () => Promise<ConsentSyncResult>;
+  /** Uploads the local consent now, if there is a decision. */
+  push: () => Promise<void>;
+  /** Stops watching for local decisions. */
+  stop: () => void;
+};
+
+export type HttpSyncAdapterOptions = {
+  /** Records live at `${baseUrl}/${encodeURIComponent(userId)}`. */
+  baseUrl: string;
+  /** Extra request headers, e.g. authorization; may be resolved per request. */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+};
+
+const hasDecision = (status: UserStatus) => status.status === 'choiceExists';
+
+// Purposes and vendors a status grants, as `purpose:<id>` / `vendor:<id>`.
+const grantsOf = (status: Partial<UserStatus>) => {
+  const granted = (prefix: string, statuses: Record<string, string> = {}) =>
+    Object.entries(statuses)
+      .filter(([, value]) => value === 'granted')
+      .map(([id]) => `${prefix}:${id}`);
+  return new Set([
+    ...granted('purpose', status.purposes),
+    ...granted('vendor', status.vendors),
+  ]);
+};
+
+// True when `narrower` grants a strict subset of what `wider` grants.
+const isMoreRestrictive = (
+  narrower: Partial<UserStatus>,
+  wider: Partial<UserStatus>
+) => {
+  const fewer = grantsOf(narrower);
+  const more = grantsOf(wider);
+  return fewer.size < more.size && [...fewer].every((id) => more.has(id));
+};
+
+const lastUpdatedOf = (tcf: string) => {
+  if (!tcf) return null;
+  try {
+    return decodeTCString(tcf).lastUpdated.getTime();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Adapter that keeps records in memory, standing in for a server in tests and
+ * during development. Share one instance between engines to simulate devices.
+ */
+export const createMemorySyncAdapter = (): ConsentSyncAdapter & {
+  /** Returns a copy of every stored record, keyed by user id. */
+  getRecords: () => Record<string, ConsentSyncRecord>;
+} => {
+  const records = new Map<string, ConsentSyncRecord>();
+  return {
+    pull: async (userId) => records.get(userId) ?? null,
+    push: async (userId, cmpString, status) => {
+      records.set(userId, { cmpString, status });
+    },
+    getRecords: () => Object.fromEntries(records),
+  };
+};
+
+/**
+ * Reference adapter for a REST endpoint: `GET` returns the record as JSON (or
+ * 404 when there is none) and `PUT` stores the JSON body.
+ *
+ * @param options - Endpoint, headers and `fetch` implementation
+ * @returns The adapter
+ *
+ * @example
+ * ```typescript
+ * const adapter = createHttpSyncAdapter({
+ *   baseUrl: 'https://api.example.com/consent',
+ *   headers: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ * });
+ * ```
+ */
+export const createHttpSyncAdapter = (
+  options: HttpSyncAdapterOptions
+): ConsentSyncAdapter => {
+  const request = async (userId: string, init: RequestInit) => {
+    const headers =
+      typeof options.headers === 'function'
+        ? await options.headers()
+        : options.headers;
+    const response = await (options.fetch ?? fetch)(
+      `${options.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(userId)}`,
+      {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...headers },
+      }
+    );
+    if (!response.ok && response.status !== 404) {
+      throw new Error(
+        `Consent sync ${init.method} failed with HTTP ${response.status}`
+      );
+    }
+    return response;
+  };
+
+  return {
+    pull: async (userId) => {
+      const response = await request(userId, { method: 'GET' });
+      if (response.status === 404) return null;
+      return (await response.json()) as ConsentSyncRecord;
+    },
+    push: async (userId, cmpString, status) => {
+      await request(userId, {
+        method: 'PUT',
+        body: JSON.stringify({ cmpString, status }),
+      });
+    },
+  };
+};
+
+/**
+ * Creates a sync engine. Call `sync()` after login and on app start, e.g.
+ * before `checkAndOpen`, so a decision made elsewhere suppresses the layer.
+ *
+ * The local consent time is the later of the TCF `lastUpdated`, which is
+ * rounded to the day, and the time the engine saw the last local decision.
+ * Without either, consent made before the engine existed loses against any
+ * remote record. When both sides have the same time but different consent,
+ * the remote record only wins when it grants strictly less than the local
+ * consent; otherwise the local consent is kept and pushed, so a tie never
+ * widens what the user agreed to.
+ *
+ * @param options - Adapter, user and push behavior
+ * @returns The engine
+ *
+ * @example
+ * ```typescript
+ * const consentSync = createConsentSyncEngine({
+ *   adapter: createHttpSyncAdapter({ baseUrl: 'https://api.example.com/consent' }),
+ *   userId: () => session?.userId ?? null,
+ * });
+ *
+ * await consentSync.sync();
+ * await checkAndOpen(false);
+ * ```
+ */
+export const createConsentSyncEngine = (
+  options: ConsentSyncOptions
+): ConsentSyncEngine => {
+  const { adapter } = options;
+  const currentUserId = () =>
+    typeof options.userId === 'function' ? options.userId() : options.userId;
+  // Time of the last local decision, for consent without a TCF string.
+  let changedAt: number | null = null;
+  // Export of the consent last pushed or pulled. A change event that leaves
+  // it as it is (e.g. the native echo of an import) is not pushed again.
+  let syncedCmpString: string | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.catch(() => {}).then(task);
+    queue = run;
+    return run;
+  };
+
+  // TCF 2.2 rounds `lastUpdated` to the day, so a decision the engine saw
+  // later that day is dated by when it was seen.
+  const localUpdatedAt = (status: UserStatus) => {
+    if (!hasDecision(status)) return null;
+    const lastUpdated = lastUpdatedOf(status.tcf);
+    if (lastUpdated === null || changedAt === null) {
+      return lastUpdated ?? changedAt;
+    }
+    return Math.max(lastUpdated, changedAt);
+  };
+
+  const upload = async (
+    userId: string,
+    userStatus: UserStatus,
+    updatedAt: number,
+    cmpString?: string
+  ) => {
+    const exported = cmpString ?? (await exportCMPInfo());
+    await adapter.push(userId, exported, { updatedAt, userStatus });
+    syncedCmpString = exported;
+  };
+
+  const pushOnChange = options.pushOnChange ?? true;
+
+  const onChange = () => {
+    const timestamp = Date.now();
+    serialized(async () => {
+      // The event only carries the TCF string; the rest needs a fresh read.
+      const status = await consentStore.refresh();
+      if (!hasDecision(status)) return;
+      const cmpString = await exportCMPInfo();
+      if (cmpString === syncedCmpString) return;
+      changedAt = timestamp;
+      const userId = currentUserId();
+      const updatedAt = localUpdatedAt(status);
+      if (!pushOnChange || userId === null || updatedAt === null) return;
+      await upload(userId, status, updatedAt, cmpString);
+    }).catch((error) => {
+      logWarning('Could not push consent for sync.', error);
+    });
+  };
+
+  const consentSubscription = addConsentListener(onChange);
+  // Imports restore consent decided elsewhere (by this engine or a profile
+  // switch) and resets withdraw it locally; neither is a new decision.
+  const removeOperationListener = addConsentOperationListener(({ name }) => {
+    if (name !== 'importCMPInfo' && name !== 'resetConsentManagementData') {
+      onChange();
+    }
+  });
+
+  return {
+    sync: () =>
+      serialized(async (): Promise<ConsentSyncResult> => {
+        const userId = currentUserId();
+        if (userId === null) {
+          return {
+            outcome: 'skipped',
+            localUpdatedAt: null,
+            remoteUpdatedAt: null,
+          };
+        }
+        const [remote, status] = await Promise.all([
+          adapter.pull(userId),
+          getUserStatus(),
+        ]);
+        const local = localUpdatedAt(status);
+        const remoteUpdatedAt = remote?.status.updatedAt ?? null;
+        const result = { localUpdatedAt: local, remoteUpdatedAt };
+
+        // Equal times with different consent keep the more restrictive side,
+        // so a revocation is never overwritten by a grant from the same time.
+        let remoteWins =
+          remote !== null &&
+          (local === null || remote.status.updatedAt > local);
+        let exported: string | undefined;
+        if (remote && local === remote.status.updatedAt) {
+          exported = await exportCMPInfo();
+          if (exported === remote.cmpString) {
+            syncedCmpString = exported;
+            return { outcome: 'inSync', ...result };
+          }
+          remoteWins = isMoreRestrictive(
+            remote.status.userStatus ?? {},
+            status
+          );
+        }
+
+        if (remote && remoteWins) {
+          await importCMPInfo(remote.cmpString);
+          changedAt = remote.status.updatedAt;
+          syncedCmpString = await exportCMPInfo();
+          return { outcome: 'pulled', ...result };
+        }
+        if (local !== null) {
+          await upload(userId, status, local, exported);
+          return { outcome: 'pushed', ...result };
+        }
+        return { outcome: 'inSync', ...result };
+      }),
+    push: () =>
+      serialized(async () => {
+        const userId = currentUserId();
+        if (userId === null) return;
+        const status = await getUserStatus();
+        const updatedAt = localUpdatedAt(status);
+        if (updatedAt !== null) await upload(userId, status, updatedAt);
+      }),
+    stop: () => {
+      consentSubscription.remove();
+      removeOperationListener();
+    },
+  };
+};
@@ -0,0 +1,1023 @@
+/**
+ * Bridge wrappers around the native consent management module.
+ *
+ * Everything here is re-exported from the package entry point. Feature modules
+ * (hooks, helpers) import from this file rather than from `index` so the
+ * public barrel never ends up in a require cycle.
+ */
+
+import {
+  NativeModules,
+  Platform,
+  NativeEventEmitter,
+  processColor,
+} from 'react-native';
+import type { EmitterSubscription } from 'react-native';
+import NativeCmSdkReactNativeV3, {
+  type ConsentReceivedEvent,
+  type ConsentStatusValue,
+  type ErrorEvent,
+  type GoogleConsentType,
+  type LinkClickEvent,
+  type ATTStatusChangeEvent,
+  type UrlConfig,
+  type WebViewConfig,
+  type WebViewRect,
+  type WebViewBackgroundStyle,
+  WebViewPosition,
+  BackgroundStyleType,
+  BlurEffectStyle,
+  ATTStatus,
+  BackgroundStyle,
+  type UserStatus,
+  type UserChoiceStatus,
+  type GoogleConsentModeStatus,
+  type ThirdPartyConsentStatus,
+  type Spec,
+} from './NativeCmSdkReactNativeV3';
+import { CmpError, toCmpError } from './errors';
+import { createConsentStore, type ConsentStore } from './consentStore';
+import { normalizeConsentStatus, normalizeUserStatus } from './consentStatus';
+import {
+  addLoggerChangeListener,
+  isLogging,
+  logCall,
+  logEvent,
+} from './logger';
+import { recordCall } from './metrics';
+import {
+  notifyConsentOperation,
+  type ConsentOperation,
+} from './consentOperations';
+import { withOfflineFallback } from './offlineFallback';
+import { readiness } from './readiness';
+import { withRetry } from './retry';
+import { assertValidUrlConfig } from './urlConfigValidation';
+
+const LINKING_ERROR =
+  `The package 'cm-sdk-react-native-v3-new-arch' doesn't seem to be linked. Make sure: \n\n` +
+  Platform.select({ ios: "- You have run 'pod install'\n", default: '' }) +
+  '- You rebuilt the app after installing the package\n' +
+  '- You are not using Expo Go\n';
+
+// Use TurboModule if available (New Architecture), fallback to legacy NativeModules
+const CmSdkReactNativeV3 =
+  NativeCmSdkReactNativeV3 ??
+  (NativeModules.CmSdkReactNativeV3
+    ? NativeModules.CmSdkReactNativeV3
+    : new Proxy(
+        {},
+        {
+          get(_target, property) {
+            throw new CmpError('NOT_LINKED', LINKING_ERROR, {
+              method: String(property),
+            });
+          },
+        }
+      ));
+
+/**
+ * Indicates whether the TurboModule (New Architecture) is being used.
+ * When `true`, the module is loaded via TurboModuleRegistry for optimal performance.
+ */
+export const isTurboModuleEnabled = NativeCmSdkReactNativeV3 != null;
+
+const eventEmitter = new NativeEventEmitter(CmSdkReactNativeV3);
+
+type NativeMethods = Omit<
+  Spec,
+  'addListener' | 'removeListeners' | 'getConstants'
+>;
+type NativeMethodName = keyof NativeMethods;
+
+const getNativeMethod = <T extends NativeMethodName>(methodName: T) => {
+  const method = (CmSdkReactNativeV3 as Partial<NativeMethods>)[methodName];
+  if (typeof method !== 'function') {
+    throw new CmpError(
+      'NOT_AVAILABLE',
+      `[cm-sdk-react-native-v3-new-arch] ${methodName} is not available on ${Platform.OS}.`,
+      { method: methodName }
+    );
+  }
+
+  return method.bind(CmSdkReactNativeV3) as NativeMethods[T];
+};
+
+// Configuration calls that are valid before `setUrlConfig` succeeded. Every
+// other call needs a configured CMP.
+const UNGUARDED_METHODS = new Set<NativeMethodName>([
+  'setUrlConfig',
+  'setWebViewConfig',
+  'setATTStatus',
+  'setAutomaticConsentUpdatesEnabled',
+  'configureAutomaticFirebaseConsentUpdates',
+  'setAutomaticFirebaseConsentUpdatesEnabled',
+  'isAutomaticFirebaseConsentUpdatesEnabled',
+  'isFirebaseAnalyticsAvailable',
+]);
+
+const notInitialized = (method: string, cause?: unknown): CmpError =>
+  new CmpError(
+    'NOT_INITIALIZED',
+    cause === undefined
+      ? `[cm-sdk-react-native-v3-new-arch] ${method} was called before initialization. Call initialize() or setUrlConfig() first.`
+      : `[cm-sdk-react-native-v3-new-arch] ${method} was called after initialization failed: ${
+          cause instanceof Error ? cause.message : String(cause)
+        }`,
+    { method, cause }
+  );
+
+// Waits while initialization is running and rejects when there is none, so
+// an early call never reaches native without a URL config.
+const ensureInitialized = async (method: NativeMethodName) => {
+  if (UNGUARDED_METHODS.has(method)) return;
+  switch (readiness.getState()) {
+    case 'ready':
+      return;
+    case 'initializing':
+      try {
+        await readiness.whenReady();
+      } catch (error) {
+        throw notInitialized(method, error);
+      }
+      return;
+    case 'failed':
+      throw notInitialized(method, readiness.getFailure());
+    case 'idle':
+      throw notInitialized(method);
+  }
+};
+
+// Every wrapper goes through here so a failure always surfaces as a rejected
+// CmpError, whether the method is missing, the CMP is not initialized or the
+// native side rejected. Each call is also timed for the metrics and the log.
+const callNative = async <T extends NativeMethodName>(
+  methodName: T,
+  ...args: Parameters<NativeMethods[T]>
+): Promise<Awaited<ReturnType<NativeMethods[T]>>> => {
+  const startedAt = Date.now();
+  try {
+    await ensureInitialized(methodName);
+    const method = getNativeMethod(methodName) as (
+      ...methodArgs: Parameters<NativeMethods[T]>
+    ) => ReturnType<NativeMethods[T]>;
+    const result = await method(...args);
+    const durationMs = Date.now() - startedAt;
+    recordCall(methodName, durationMs);
+    logCall(methodName, args, durationMs, { result });
+    return result;
+  } catch (error) {
+    const cmpError = toCmpError(error, methodName);
+    const durationMs = Date.now() - startedAt;
+    recordCall(methodName, durationMs, cmpError.code);
+    logCall(methodName, args, durationMs, { error: cmpError });
+    throw cmpError;
+  }
+};
+
+const NATIVE_EVENTS = [
+  'didReceiveConsent',
+  'didShowConsentLayer',
+  'didCloseConsentLayer',
+  'didReceiveError',
+  'onClickLink',
+  'didChangeATTStatus',
+];
+
+// Native events are only observed for the log while `debug` entries are kept,
+// so an app without a debug logger does not pay for extra listeners.
+let eventLogSubscriptions: EmitterSubscription[] = [];
+addLoggerChangeListener(() => {
+  eventLogSubscriptions.forEach((subscription) => subscription.remove());
+  eventLogSubscriptions = isLogging('debug')
+    ? NATIVE_EVENTS.map((event) =>
+        eventEmitter.addListener(event, (payload: unknown) =>
+          logEvent(event, payload)
+        )
+      )
+    : [];
+});
+
+const invalidArgument = (method: string, message: string): CmpError =>
+  new CmpError('INVALID_ARGUMENT', message, { method });
+
+// Status values that do not map onto the typed unions go to the error
+// listeners, the same channel as native `didReceiveError` events.
+const reportUnknownStatus =
+  (method: NativeMethodName) => (value: unknown, source: string) => {
+    eventEmitter.emit('didReceiveError', {
+      error: `[cm-sdk-react-native-v3-new-arch] ${method} returned unknown consent status ${JSON.stringify(value)} for ${source}; reading it as choiceDoesntExist.`,
+    } satisfies ErrorEvent);
+  };
+
+const store = createConsentStore({
+  read: async () =>
+    normalizeUserStatus(
+      await callNative('getUserStatus'),
+      reportUnknownStatus('getUserStatus')
+    ),
+  watch: (invalidate) => {
+    eventEmitter.addListener('didReceiveConsent', invalidate);
+  },
+});
+
+// Runs a call that can change consent and invalidates the cached snapshot
+// once it succeeded. A rejected call leaves the snapshot as it was. Consent
+// decisions also pass `operation`, which is reported to internal observers.
+const changingConsent = async <T>(
+  call: Promise<T>,
+  operation?: ConsentOperation
+): Promise<T> => {
+  const result = await call;
+  store.invalidate();
+  if (operation) notifyConsentOperation(operation);
+  return result;
+};
+
+/**
+ * Module-level cache of the last `UserStatus`.
+ *
+ * It is invalidated after every call that can change consent
+ * (`didReceiveConsent`, `acceptAll`, `rejectPurposes`, `importCMPInfo`,
+ * `resetConsentManagementData`, ...) and refreshes once per invalidation.
+ * `getSnapshot` and `subscribe` plug straight into `useSyncExternalStore`.
+ *
+ * @example
+ * ```typescript
+ * const status = useSyncExternalStore(
+ *   consentStore.subscribe,
+ *   consentStore.getSnapshot
+ * );
+ * ```
+ */
+export const consentStore: ConsentStore = {
+  getSnapshot: store.getSnapshot,
+  subscribe: store.subscribe,
+  refresh: store.refresh,
+};
+
+/**
+ * Registers a listener for consent received events.
+ * Called when the user makes a consent decision in the consent layer.
+ *
+ * @param callback - Function called with the consent string and parsed JSON data
+ * @returns Subscription that should be removed on cleanup
+ *
+ * @example
+ * ```typescript
+ * useEffect(() => {
+ *   const subscription = addConsentListener((consent, data) => {
+ *     console.log('TCF String:', consent);
+ *     console.log('Consent data:', data);
+ *   });
+ *   return () => subscription.remove();
+ * }, []);
+ * ```
+ */
+export const addConsentListener = (
+  callback: (consent: string, jsonObject: Record<string, unknown>) => void
+): EmitterSubscription => {
+  return eventEmitter.addListener(
+    'didReceiveConsent',
+    (event: ConsentReceivedEvent) => {
+      callback(event.consent, event.jsonObject);
+    }
+  );
+};
+
+/**
+ * Registers a listener for when the consent layer is shown.
+ *
+ * @param callback - Function called when consent layer becomes visible
+ * @returns Subscription that should be removed on cleanup
+ */
+export const addShowConsentLayerListener = (
+  callback: () => void
+): EmitterSubscription => {
+  return eventEmitter.addListener('didShowConsentLayer', callback);
+};
+
+/**
+ * Registers a listener for when the consent layer is closed.
+ *
+ * @param callback - Function called when consent layer is dismissed
+ * @returns Subscription that should be removed on cleanup
+ */
+export const addCloseConsentLayerListener = (
+  callback: () => void
+): EmitterSubscription => {
+  return eventEmitter.addListener('didCloseConsentLayer', callback);
+};
+
+/**
+ * Registers a listener for error events from the CMP.
+ *
+ * @param callback - Function called with error message when an error occurs
+ * @returns Subscription that should be removed on cleanup
+ */
+export const addErrorListener = (
+  callback: (error: string) => void
+): EmitterSubscription => {
+  return eventEmitter.addListener('didReceiveError', (event: ErrorEvent) => {
+    callback(event.error);
+  });
+};
+
+/**
+ * Registers a listener for link click events in the consent layer.
+ * Use this to handle external links (e.g., privacy policy) custom behavior.
+ *
+ * @param callback - Function called with the clicked URL
+ * @returns Subscription that should be removed on cleanup
+ */
+export const addClickLinkListener = (
+  callback: (url: string) => void
+): EmitterSubscription => {
+  return eventEmitter.addListener('onClickLink', (event: LinkClickEvent) => {
+    callback(event.url);
+  });
+};
+
+/**
+ * Registers a listener for ATT (App Tracking Transparency) status changes.
+ * iOS only - will not fire on Android.
+ *
+ * @param callback - Function called with old/new status and timestamp
+ * @returns Subscription that should be removed on cleanup
+ */
+export const addATTStatusChangeListener = (
+  callback: (event: ATTStatusChangeEvent) => void
+): EmitterSubscription => {
+  return eventEmitter.addListener('didChangeATTStatus', callback);
+};
+
+/**
+ * Configures the CMP URL endpoint.
+ * Must be called before any other CMP operations; `initialize()` calls it for
+ * you. Until it succeeds, consent calls reject with `NOT_INITIALIZED`, and
+ * calls made while it runs wait for it.
+ *
+ * The config is checked in JS first (see `validateUrlConfig`); an invalid one
+ * rejects with `INVALID_ARGUMENT` listing every problem in `error.issues`, and
+ * does not change the initialization state.
+ *
+ * @param config - URL configuration object
+ * @returns Promise that resolves when configuration is complete
+ *
+ * @example
+ * ```typescript
+ * await setUrlConfig({
+ *   id: 'your-cmp-id',
+ *   domain: 'delivery.consentmanager.net',
+ *   language: 'EN',
+ *   appName: 'MyApp',
+ *   noHash: true,
+ * });
+ * ```
+ */
+export const setUrlConfig = async (config: UrlConfig): Promise<void> => {
+  // An invalid config never reaches native, so it leaves the readiness state
+  // (and a previously applied config) as it was.
+  assertValidUrlConfig(config);
+  readiness.begin();
+  try {
+    await changingConsent(callNative('setUrlConfig', config));
+  } catch (error) {
+    readiness.fail(error);
+    throw error;
+  }
+  readiness.succeed();
+};
+
+/**
+ * Configures the consent layer WebView appearance.
+ * Call this before opening the consent layer to customize its look.
+ *
+ * @param config - WebView configuration object
+ * @returns Promise that resolves when configuration is complete
+ *
+ * @example
+ * ```typescript
+ * await setWebViewConfig({
+ *   position: WebViewPosition.HalfScreenBottom,
+ *   backgroundStyle: BackgroundStyle.blur(BlurEffectStyle.Dark),
+ *   cornerRadius: 20,
+ *   respectsSafeArea: true,
+ * });
+ * ```
+ */
+export const setWebViewConfig = async (
+  config: WebViewConfig
+): Promise<void> => {
+  const normalized = normalizeWebViewConfig(config);
+  await callNative('setWebViewConfig', normalized);
+  appliedWebViewConfig = { ...config };
+};
+
+// Last config accepted by native, as passed in (before normalization).
+let appliedWebViewConfig: WebViewConfig | null = null;
+// Updates are chained so each one merges with the result of the previous one.
+let webViewConfigUpdates: Promise<void> = Promise.resolve();
+
+/**
+ * Changes only the given WebView fields and keeps the rest of the last applied
+ * config, unlike `setWebViewConfig`, which resets omitted fields to their
+ * defaults. Nested values (`customRect`, `backgroundStyle`) are replaced, not
+ * merged. Concurrent updates are applied one after the other.
+ *
+ * @param partial - Fields to change; `undefined` resets a field to its default
+ * @returns Promise that resolves when the merged config is applied
+ *
+ * @example
+ * ```typescript
+ * await setWebViewConfig({
+ *   position: WebViewPosition.HalfScreenBottom,
+ *   backgroundStyle: BackgroundStyle.blur(),
+ * });
+ * await updateWebViewConfig({ cornerRadius: 24 }); // position and blur stay
+ * ```
+ */
+export const updateWebViewConfig = (
+  partial: Partial<WebViewConfig>
+): Promise<void> => {
+  const update = webViewConfigUpdates
+    .catch(() => {})
+    .then(() => setWebViewConfig({ ...appliedWebViewConfig, ...partial }));
+  webViewConfigUpdates = update;
+  return update;
+};
+
+/**
+ * Returns the last WebView config applied through `setWebViewConfig`,
+ * `updateWebViewConfig` or a preset, as it was passed in. Omitted fields use
+ * their defaults natively.
+ *
+ * @returns Copy of the applied config, or null before the first one
+ */
+export const getWebViewConfig = (): WebViewConfig | null =>
+  appliedWebViewConfig ? { ...appliedWebViewConfig } : null;
+
+/**
+ * Sets the App Tracking Transparency (ATT) status for iOS.
+ * Call this after requesting ATT permission from the user.
+ * Has no effect on Android.
+ *
+ * @param status - ATT authorization status (0-3)
+ * @throws CmpError (`INVALID_ARGUMENT`) if status is not a valid ATTStatus value
+ * @returns Promise that resolves when status is set
+ *
+ * @example
+ * ```typescript
+ * import { ATTStatus } from 'cm-sdk-react-native-v3-new-arch';
+ *
+ * // After ATT request
+ * await setATTStatus(ATTStatus.Authorized);
+ * ```
+ */
+export const setATTStatus = async (
+  status: ATTStatus | number
+): Promise<void> => {
+  const allowed = new Set<ATTStatus>([
+    ATTStatus.NotDetermined,
+    ATTStatus.Restricted,
+    ATTStatus.Denied,
+    ATTStatus.Authorized,
+  ]);
+  if (!allowed.has(status as ATTStatus)) {
+    throw invalidArgument(
+      'setATTStatus',
+      `[cm-sdk-react-native-v3] Invalid ATT status ${status}. Use ATTStatus enum (0–3 from Apple's ATTrackingManagerAuthorizationStatus).`
+    );
+  }
+  return callNative('setATTStatus', status);
+};
+
+/**
+ * Checks if consent is required and opens the consent layer if needed.
+ * Retried according to `setRetryPolicy`.
+ *
+ * @param jumpToSettings - If true, opens directly to settings/preferences page
+ * @returns Promise resolving to true if consent layer was shown
+ *
+ * @example
+ * ```typescript
+ * // Show consent layer only if needed
+ * const wasShown = await checkAndOpen(false);
+ *
+ * // Jump directly to settings
+ * await checkAndOpen(true);
+ * ```
+ */
+export const checkAndOpen = (jumpToSettings: boolean): Promise<boolean> => {
+  return withRetry('checkAndOpen', () =>
+    callNative('checkAndOpen', jumpToSettings)
+  );
+};
+
+/**
+ * Forces the consent layer to open regardless of current consent state.
+ * Retried according to `setRetryPolicy`.
+ *
+ * @param jumpToSettings - If true, opens directly to settings/preferences page
+ * @returns Promise resolving to true when consent layer is shown
+ */
+export const forceOpen = (jumpToSettings: boolean): Promise<boolean> => {
+  return withRetry('forceOpen', () => callNative('forceOpen', jumpToSettings));
+};
+
+/**
+ * Gets the current user consent status including all vendors and purposes.
+ *
+ * Served from `consentStore` while its snapshot is fresh, so repeated calls
+ * do not cross the bridge until something invalidates it.
+ *
+ * @returns Promise resolving to complete user consent status
+ *
+ * @example
+ * ```typescript
+ * const status = await getUserStatus();
+ * console.log('TCF String:', status.tcf);
+ * console.log('Vendors:', status.vendors);
+ * console.log('Purposes:', status.purposes);
+ * ```
+ */
+export const getUserStatus = (): Promise<UserStatus> => {
+  return store.get();
+};
+
+/**
+ * Checks if consent is required from the user.
+ * Does not open the consent layer. Retried according to `setRetryPolicy`,
+ * which makes `resolveConsent` retry as well.
+ *
+ * @returns Promise resolving to true if consent is needed
+ */
+export const isConsentRequired = (): Promise<boolean> => {
+  return changingConsent(
+    withRetry('isConsentRequired', () => callNative('isConsentRequired'))
+  );
+};
+
+/**
+ * Outcome of a single consent resolution.
+ */
+export type ConsentResolution = {
+  /** True when the consent layer still needs to be shown. */
+  consentRequired: boolean;
+  /**
+   * Regulation reported by the native SDK, e.g. `GDPR` or `CCPA`.
+   *
+   * Empty in practice at this point in the lifecycle: on a cold install the
+   * native SDK reports an empty string even when `consentRequired` is true and
+   * the server resolved a regulation. Treat empty as unknown, not as "none";
+   * `normalizeRegulation` maps it to `UNKNOWN`.
+   */
+  regulation: string;
+  /** Snapshot taken after the resolution completed. */
+  userStatus: UserStatus;
+  /**
+   * True when the live resolution failed and this is the last good one,
+   * served by `enableOfflineFallback`. Absent on a live resolution.
+   */
+  stale?: boolean;
+  /** Age of a stale resolution in milliseconds. */
+  ageMs?: number;
+};
+
+/**
+ * Resolves consent once and returns the verdict together with the full user
+ * status snapshot behind it.
+ *
+ * The value here is ordering and call count: `isConsentRequired()` is the call
+ * that drives the CMP WebView and pays a network round trip, and this guarantees
+ * the snapshot is read after it completes. Read purposes and vendors from
+ * `userStatus.purposes` / `userStatus.vendors` rather than calling
+ * `getStatusForPurpose()` / `getStatusForVendor()` per id.
+ *
+ * With `enableOfflineFallback()`, a failed or slow resolution returns the last
+ * good one flagged `stale: true` instead of rejecting.
+ *
+ * @returns Promise resolving to the consent verdict and the snapshot behind it
+ *
+ * @example
+ * ```typescript
+ * // Start resolving during app boot, await it only where the decision is made.
+ * const consentPromise = resolveConsent();
+ *
+ * const { consentRequired, userStatus } = await consentPromise;
+ * if (consentRequired) {
+ *   await checkAndOpen(false);
+ * }
+ * console.log(userStatus.purposes.c52); // 'granted' | 'denied' | 'choiceDoesntExist'
+ * ```
+ */
+export const resolveConsent = (): Promise<ConsentResolution> => {
+  return withOfflineFallback(resolveLive());
+};
+
+const resolveLive = async (): Promise<ConsentResolution> => {
+  const consentRequired = await isConsentRequired();
+  // The status read is retried as well; a failed read leaves no in-flight
+  // entry behind, so every attempt reads from native again.
+  const userStatus = await withRetry('resolveConsent', () => store.refresh());
+
+  return { consentRequired, regulation: userStatus.regulation, userStatus };
+};
+
+// Internal helper functions
+const normalizeWebViewConfig = (config: WebViewConfig): WebViewConfig => {
+  const position =
+    (config.position as WebViewPosition | undefined) ??
+    WebViewPosition.FullScreen;
+  const allowedPositions = [
+    WebViewPosition.FullScreen,
+    WebViewPosition.HalfScreenTop,
+    WebViewPosition.HalfScreenBottom,
+    WebViewPosition.Custom,
+  ];
+  if (!allowedPositions.includes(position)) {
+    throw invalidArgument(
+      'setWebViewConfig',
+      `Invalid WebView position: ${position}`
+    );
+  }
+
+  if (position === WebViewPosition.Custom) {
+    if (!config.customRect) {
+      throw invalidArgument(
+        'setWebViewConfig',
+        'customRect is required when position is "custom"'
+      );
+    }
+  }
+
+  const backgroundStyle = (() => {
+    if (!config.backgroundStyle) {
+      return {
+        type: BackgroundStyleType.Dimmed,
+        color: normalizeColor('black'),
+        opacity: 0.5,
+      } as WebViewBackgroundStyle;
+    }
+    const { type } = config.backgroundStyle;
+    switch (type) {
+      case BackgroundStyleType.Dimmed:
+        return {
+          type,
+          color: normalizeColor(config.backgroundStyle.color ?? 'black'),
+          opacity: config.backgroundStyle.opacity ?? 0.5,
+        } as WebViewBackgroundStyle;
+      case BackgroundStyleType.Color:
+        if (!config.backgroundStyle.color)
+          throw invalidArgument(
+            'setWebViewConfig',
+            'color is required for backgroundStyle "color"'
+          );
+        return {
+          type,
+          color: normalizeColor(config.backgroundStyle.color),
+        } as WebViewBackgroundStyle;
+      case BackgroundStyleType.Blur: {
+        const blurStyle =
+          config.backgroundStyle.blurEffectStyle ?? BlurEffectStyle.Dark;
+        if (
+          blurStyle !== BlurEffectStyle.Dark &&
+          blurStyle !== BlurEffectStyle.Light &&
+          blurStyle !== BlurEffectStyle.ExtraLight
+        ) {
+          throw invalidArgument(
+            'setWebViewConfig',
+            `Invalid blurEffectStyle: ${blurStyle}`
+          );
+        }
+        return {
+          type,
+          blurEffectStyle: blurStyle,
+          fallbackColor: normalizeColor(
+            config.backgroundStyle.fallbackColor ?? 'black'
+          ),
+          fallbackOpacity: config.backgroundStyle.fallbackOpacity ?? 0.5,
+        } as WebViewBackgroundStyle;
+      }
+      case BackgroundStyleType.None:
+        return { type } as WebViewBackgroundStyle;
+      default:
+        throw invalidArgument(
+          'setWebViewConfig',
+          `Invalid backgroundStyle type: ${(config.backgroundStyle as WebViewBackgroundStyle).type}`
+        );
+    }
+  })();
+
+  return {
+    position,
+    customRect: config.customRect,
+    cornerRadius: config.cornerRadius ?? 5,
+    respectsSafeArea: config.respectsSafeArea ?? true,
+    allowsOrientationChanges: config.allowsOrientationChanges ?? true,
+    darkMode: config.darkMode ?? false,
+    navigationBarColor: normalizeColor(config.navigationBarColor),
+    backgroundStyle,
+  };
+};
+
+const normalizeColor = (
+  color: string | number | undefined
+): number | undefined => {
+  if (color === undefined) return undefined;
+  const processed = processColor(color);
+  if (processed == null)
+    throw invalidArgument('setWebViewConfig', `Invalid color value: ${color}`);
+  return processed as number;
+};
+
+/**
+ * Gets the consent status for a specific purpose.
+ * A value the wrapper does not know is reported to the error listeners and
+ * read as `choiceDoesntExist`.
+ *
+ * @param purposeId - The purpose ID (e.g., 'c52', 'c53')
+ * @returns Promise resolving to the consent status
+ */
+export const getStatusForPurpose = async (
+  purposeId: string
+): Promise<ConsentStatusValue> =>
+  normalizeConsentStatus(
+    await callNative('getStatusForPurpose', purposeId),
+    `purposes.${purposeId}`,
+    reportUnknownStatus('getStatusForPurpose')
+  );
+
+/**
+ * Gets the consent status for a specific vendor.
+ * A value the wrapper does not know is reported to the error listeners and
+ * read as `choiceDoesntExist`.
+ *
+ * @param vendorId - The vendor ID (e.g., 's2789')
+ * @returns Promise resolving to the consent status
+ */
+export const getStatusForVendor = async (
+  vendorId: string
+): Promise<ConsentStatusValue> =>
+  normalizeConsentStatus(
+    await callNative('getStatusForVendor', vendorId),
+    `vendors.${vendorId}`,
+    reportUnknownStatus('getStatusForVendor')
+  );
+
+/**
+ * Gets the Google Consent Mode v2 status.
+ * Useful for Firebase Analytics and Google Ads integration.
+ *
+ * @returns Promise resolving to Google Consent Mode status object
+ * @see https://developers.google.com/tag-platform/security/guides/consent
+ */
+export const getGoogleConsentModeStatus =
+  (): Promise<GoogleConsentModeStatus> => {
+    return callNative('getGoogleConsentModeStatus');
+  };
+
+/**
+ * Exports the current CMP information as a portable string.
+ * Can be imported later using `importCMPInfo`.
+ *
+ * @returns Promise resolving to the exported CMP string
+ */
+export const exportCMPInfo = (): Promise<string> => {
+  return callNative('exportCMPInfo');
+};
+
+/**
+ * Imports previously exported CMP information.
+ *
+ * @param cmpString - The CMP string from `exportCMPInfo`
+ * @returns Promise resolving to true if import was successful
+ */
+export const importCMPInfo = (cmpString: string): Promise<boolean> => {
+  return changingConsent(callNative('importCMPInfo', cmpString), {
+    name: 'importCMPInfo',
+  });
+};
+
+/**
+ * Resets all consent management data.
+ * User will need to provide consent again.
+ *
+ * @returns Promise resolving to true if reset was successful
+ */
+export const resetConsentManagementData = (): Promise<boolean> => {
+  return changingConsent(callNative('resetConsentManagementData'), {
+    name: 'resetConsentManagementData',
+  });
+};
+
+/**
+ * Accepts consent for specific vendors.
+ *
+ * @param vendors - Array of vendor IDs to accept
+ * @returns Promise resolving to true if successful
+ */
+export const acceptVendors = (vendors: string[]): Promise<boolean> => {
+  return changingConsent(callNative('acceptVendors', vendors), {
+    name: 'acceptVendors',
+    ids: vendors,
+  });
+};
+
+/**
+ * Rejects consent for specific vendors.
+ *
+ * @param vendors - Array of vendor IDs to reject
+ * @returns Promise resolving to true if successful
+ */
+export const rejectVendors = (vendors: string[]): Promise<boolean> => {
+  return changingConsent(callNative('rejectVendors', vendors), {
+    name: 'rejectVendors',
+    ids: vendors,
+  });
+};
+
+/**
+ * Accepts consent for specific purposes.
+ *
+ * @param purposes - Array of purpose IDs to accept
+ * @param updatePurpose - Whether to update related purposes
+ * @returns Promise resolving to true if successful
+ */
+export const acceptPurposes = (
+  purposes: string[],
+  updatePurpose: boolean
+): Promise<boolean> => {
+  return changingConsent(
+    callNative('acceptPurposes', purposes, updatePurpose),
+    { name: 'acceptPurposes', ids: purposes }
+  );
+};
+
+/**
+ * Rejects consent for specific purposes.
+ *
+ * @param purposes - Array of purpose IDs to reject
+ * @param updateVendor - Whether to update related vendors
+ * @returns Promise resolving to true if successful
+ */
+export const rejectPurposes = (
+  purposes: string[],
+  updateVendor: boolean
+): Promise<boolean> => {
+  return changingConsent(callNative('rejectPurposes', purposes, updateVendor), {
+    name: 'rejectPurposes',
+    ids: purposes,
+  });
+};
+
+/**
+ * Rejects all consent options.
+ *
+ * @returns Promise resolving to true if successful
+ */
+export const rejectAll = (): Promise<boolean> => {
+  return changingConsent(callNative('rejectAll'), { name: 'rejectAll' });
+};
+
+/**
+ * Accepts all consent options.
+ *
+ * @returns Promise resolving to true if successful
+ */
+export const acceptAll = (): Promise<boolean> => {
+  return changingConsent(callNative('acceptAll'), { name: 'acceptAll' });
+};
+
+export const setAutomaticConsentUpdatesEnabled = async (
+  enabled: boolean
+): Promise<void> => {
+  return callNative('setAutomaticConsentUpdatesEnabled', enabled);
+};
+
+export const updateThirdPartyConsent =
+  async (): Promise<ThirdPartyConsentStatus> => {
+    return callNative('updateThirdPartyConsent');
+  };
+
+export const configureAutomaticFirebaseConsentUpdates = async (
+  enabled: boolean
+): Promise<void> => {
+  return callNative('configureAutomaticFirebaseConsentUpdates', enabled);
+};
+
+export const setAutomaticFirebaseConsentUpdatesEnabled = async (
+  enabled: boolean
+): Promise<void> => {
+  return callNative('setAutomaticFirebaseConsentUpdatesEnabled', enabled);
+};
+
+export const isAutomaticFirebaseConsentUpdatesEnabled =
+  async (): Promise<boolean> => {
+    return callNative('isAutomaticFirebaseConsentUpdatesEnabled');
+  };
+
+export const updateFirebaseConsent = async (): Promise<boolean> => {
+  return callNative('updateFirebaseConsent');
+};
+
+export const isFirebaseAnalyticsAvailable = async (): Promise<boolean> => {
+  return callNative('isFirebaseAnalyticsAvailable');
+};
+
+/**
+ * Checks if the React Native New Architecture is enabled.
+ * Useful for debugging and conditional behavior.
+ *
+ * @returns true if New Architecture (TurboModules/Fabric) is enabled
+ */
+export const isNewArchitectureEnabled = (): boolean => {
+  // Check multiple indicators for New Architecture
+  if (NativeCmSdkReactNativeV3 != null) {
+    return true;
+  }
+
+  // Check for bridgeless mode (official RN flag)
+  if ((global as Record<string, unknown>).RN$Bridgeless === true) {
+    return true;
+  }
+
+  // Check for TurboModule interop flag
+  if ((global as Record<string, unknown>).RN$TurboInterop === true) {
+    return true;
+  }
+
+  return false;
+};
+
+// Re-export types for consumer convenience
+export type {
+  ConsentReceivedEvent,
+  ConsentStatusValue,
+  ErrorEvent,
+  GoogleConsentType,
+  LinkClickEvent,
+  ATTStatusChangeEvent,
+  UrlConfig,
+  WebViewRect,
+  WebViewBackgroundStyle,
+  WebViewConfig,
+  UserStatus,
+  UserChoiceStatus,
+  GoogleConsentModeStatus,
+  ThirdPartyConsentStatus,
+};
+
+// Re-export enums/constants for consumers
+export {
+  WebViewPosition,
+  BackgroundStyleType,
+  BlurEffectStyle,
+  ATTStatus,
+  BackgroundStyle,
+};
+
+/**
+ * Default export for code that calls methods on the module object. Each method
+ * is the named wrapper of the same name, so calls get the readiness guard,
+ * `CmpError` rejections, retries, metrics, logging and the consent store, just
+ * like the named exports.
+ *
+ * @example
+ * ```typescript
+ * import CmSdkReactNativeV3 from 'cm-sdk-react-native-v3-new-arch';
+ *
+ * await CmSdkReactNativeV3.setUrlConfig(config);
+ * await CmSdkReactNativeV3.checkAndOpen(false);
+ * ```
+ */
+const CmSdk = {
+  setUrlConfig,
+  setWebViewConfig,
+  setATTStatus,
+  checkAndOpen,
+  forceOpen,
+  getUserStatus,
+  isConsentRequired,
+  getStatusForPurpose,
+  getStatusForVendor,
+  getGoogleConsentModeStatus,
+  exportCMPInfo,
+  importCMPInfo,
+  resetConsentManagementData,
+  acceptVendors,
+  rejectVendors,
+  acceptPurposes,
+  rejectPurposes,
+  rejectAll,
+  acceptAll,
+  setAutomaticConsentUpdatesEnabled,
+  updateThirdPartyConsent,
+  configureAutomaticFirebaseConsentUpdates,
+  setAutomaticFirebaseConsentUpdatesEnabled,
+  isAutomaticFirebaseConsentUpdatesEnabled,
+  updateFirebaseConsent,
+  isFirebaseAnalyticsAvailable,
+} satisfies Record<NativeMethodName, unknown>;
+
+export default CmSdk;
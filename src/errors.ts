@@ -0,0 +1,137 @@
+/**
+ * Typed errors for the bridge wrappers.
+ *
+ * Native rejections arrive with platform codes (`E_CONFIG_ERROR`, ...). Every
+ * wrapper re-throws them as `CmpError` so callers can branch on `code`
+ * instead of matching message strings.
+ */
+
+import { Platform } from 'react-native';
+
+/**
+ * Stable error codes shared by iOS and Android.
+ *
+ * - `CONFIG_ERROR`: URL or WebView configuration was rejected natively
+ * - `INIT_ERROR`: the SDK or the host UI was not ready for the call
+ * - `STATUS_ERROR`: reading consent status failed
+ * - `CONSENT_ERROR`: showing the layer or changing consent failed
+ * - `IMPORT_ERROR`: `importCMPInfo` failed
+ * - `NOT_AVAILABLE`: the method does not exist on this platform
+ * - `INVALID_ARGUMENT`: the wrapper rejected an argument before calling native
+ * - `NOT_LINKED`: the native module is not linked into the app
+ * - `NOT_INITIALIZED`: called before `initialize()` / `setUrlConfig()` succeeded
+ * - `TIMEOUT`: the retry policy's deadline passed before the call completed
+ * - `UNKNOWN`: any other failure; see `nativeCode` and `nativeMessage`
+ */
+export type CmpErrorCode =
+  | 'CONFIG_ERROR'
+  | 'INIT_ERROR'
+  | 'STATUS_ERROR'
+  | 'CONSENT_ERROR'
+  | 'IMPORT_ERROR'
+  | 'NOT_AVAILABLE'
+  | 'INVALID_ARGUMENT'
+  | 'NOT_LINKED'
+  | 'NOT_INITIALIZED'
+  | 'TIMEOUT'
+  | 'UNKNOWN';
+
+/**
+ * One problem found while validating an argument in JS.
+ */
+export type ValidationIssue = {
+  /** Field the problem is about, e.g. `domain`. */
+  field: string;
+  message: string;
+};
+
+export type CmpErrorOptions = {
+  /** Wrapper method that failed, e.g. `checkAndOpen`. */
+  method: string;
+  /** Code as sent by the native module, e.g. `E_CONSENT_ERROR`. */
+  nativeCode?: string;
+  /** Message as sent by the native module. */
+  nativeMessage?: string;
+  cause?: unknown;
+  /** Every problem found when an argument failed validation. */
+  issues?: ValidationIssue[];
+};
+
+/**
+ * Error thrown (as a rejection) by every bridge wrapper.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await checkAndOpen(false);
+ * } catch (e) {
+ *   if (isCmpError(e) && e.code === 'INIT_ERROR') {
+ *     // App was not in the foreground yet; retry later.
+ *   }
+ * }
+ * ```
+ */
+export class CmpError extends Error {
+  readonly code: CmpErrorCode;
+  readonly platform: string;
+  readonly method: string;
+  readonly nativeCode: string | undefined;
+  readonly nativeMessage: string | undefined;
+  readonly cause: unknown;
+  /** Set for `INVALID_ARGUMENT` errors raised by argument validation. */
+  readonly issues: ValidationIssue[] | undefined;
+
+  constructor(code: CmpErrorCode, message: string, options: CmpErrorOptions) {
+    super(message);
+    this.name = 'CmpError';
+    this.code = code;
+    this.platform = Platform.OS;
+    this.method = options.method;
+    this.nativeCode = options.nativeCode;
+    this.nativeMessage = options.nativeMessage;
+    this.cause = options.cause;
+    this.issues = options.issues;
+    // Keep `instanceof` working when classes are transpiled to ES5.
+    Object.setPrototypeOf(this, CmpError.prototype);
+  }
+}
+
+/**
+ * Type guard for `CmpError`.
+ *
+ * @param error - Any caught value
+ * @returns true if the value is a `CmpError`
+ */
+export const isCmpError = (error: unknown): error is CmpError =>
+  error instanceof CmpError;
+
+const NATIVE_CODES: Record<string, CmpErrorCode> = {
+  E_CONFIG_ERROR: 'CONFIG_ERROR',
+  E_INIT_ERROR: 'INIT_ERROR',
+  E_STATUS_ERROR: 'STATUS_ERROR',
+  E_CONSENT_ERROR: 'CONSENT_ERROR',
+  E_IMPORT_ERROR: 'IMPORT_ERROR',
+  E_NOT_AVAILABLE: 'NOT_AVAILABLE',
+};
+
+/**
+ * Converts a native rejection (or anything else thrown while calling native)
+ * into a `CmpError`. Values that already are one pass through unchanged.
+ */
+export const toCmpError = (error: unknown, method: string): CmpError => {
+  if (isCmpError(error)) return error;
+
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  const nativeCode = typeof code === 'string' ? code : undefined;
+  const nativeMessage =
+    typeof message === 'string' ? message : String(error ?? 'Unknown error');
+
+  return new CmpError(
+    (nativeCode && NATIVE_CODES[nativeCode]) || 'UNKNOWN',
+    nativeMessage,
+    { method, nativeCode, nativeMessage, cause: error }
+  );
+};
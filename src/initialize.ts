@@ -0,0 +1,119 @@
+/**
+ * One-call setup of the CMP with readiness tracking.
+ *
+ * `initialize()` applies the configuration steps in the order the native SDKs
+ * expect. Consent calls made while it runs wait for it; calls made before it
+ * (or `setUrlConfig`) started reject with `NOT_INITIALIZED`.
+ */
+
+import { Platform } from 'react-native';
+import {
+  checkAndOpen,
+  setATTStatus,
+  setUrlConfig,
+  setWebViewConfig,
+  type ATTStatus,
+  type UrlConfig,
+  type WebViewConfig,
+} from './core';
+import { readiness, type InitState } from './readiness';
+import { assertValidUrlConfig } from './urlConfigValidation';
+
+export type { InitState };
+
+export type InitializeOptions = {
+  urlConfig: UrlConfig;
+  /** Applied before the URL config so the first layer already uses it. */
+  webViewConfig?: WebViewConfig;
+  /**
+   * ATT authorization to report before the CMP is configured. iOS only;
+   * ignored on Android.
+   */
+  attStatus?: ATTStatus | number;
+  /** Calls `checkAndOpen(false)` once ready. */
+  autoCheckAndOpen?: boolean;
+};
+
+export type InitializeResult = {
+  /** Whether `autoCheckAndOpen` showed the consent layer. */
+  layerShown: boolean;
+};
+
+let running: Promise<InitializeResult> | null = null;
+
+const run = async ({
+  urlConfig,
+  webViewConfig,
+  attStatus,
+  autoCheckAndOpen = false,
+}: InitializeOptions): Promise<InitializeResult> => {
+  // Checked before anything is applied, like `setUrlConfig` does.
+  assertValidUrlConfig(urlConfig);
+  readiness.begin();
+  try {
+    if (webViewConfig) await setWebViewConfig(webViewConfig);
+    if (attStatus !== undefined && Platform.OS === 'ios') {
+      await setATTStatus(attStatus);
+    }
+  } catch (error) {
+    readiness.fail(error);
+    throw error;
+  }
+  // Moves the state to `ready` or `failed` itself.
+  await setUrlConfig(urlConfig);
+
+  const layerShown = autoCheckAndOpen ? await checkAndOpen(false) : false;
+  return { layerShown };
+};
+
+/**
+ * Configures the CMP: WebView config, then ATT status (iOS), then URL config,
+ * then optionally `checkAndOpen(false)`.
+ *
+ * Calling it again while it runs returns the running attempt. Calling it after
+ * it settled re-applies the configuration.
+ *
+ * @param options - Configuration to apply
+ * @returns Promise resolving once the CMP is ready (and the layer check ran)
+ *
+ * @example
+ * ```typescript
+ * await initialize({
+ *   urlConfig: {
+ *     id: 'your-cmp-id',
+ *     domain: 'delivery.consentmanager.net',
+ *     language: 'EN',
+ *     appName: 'MyApp',
+ *   },
+ *   webViewConfig: { position: WebViewPosition.HalfScreenBottom },
+ *   attStatus: ATTStatus.Authorized,
+ *   autoCheckAndOpen: true,
+ * });
+ * ```
+ */
+export const initialize = (
+  options: InitializeOptions
+): Promise<InitializeResult> => {
+  if (!running) {
+    const attempt = run(options);
+    const clear = () => {
+      if (running === attempt) running = null;
+    };
+    attempt.then(clear, clear);
+    running = attempt;
+  }
+  return running;
+};
+
+/**
+ * Resolves once the CMP is configured, by `initialize()` or `setUrlConfig()`.
+ * Rejects with the error of a failed attempt.
+ *
+ * @returns Promise that settles with the current or next attempt
+ */
+export const whenReady = (): Promise<void> => readiness.whenReady();
+
+/**
+ * Current initialization state: `idle`, `initializing`, `ready` or `failed`.
+ */
+export const getInitState = (): InitState => readiness.getState();
@@ -0,0 +1,247 @@
+/**
+ * Routing for links tapped in the consent layer.
+ *
+ * The native side reports link taps through `onClickLink` and leaves opening
+ * most of them to the app. A link handling policy decides per link: open it in
+ * the system browser, in an in-app browser, on an app screen, or not at all.
+ *
+ * The policy only applies to links native hands off. Both native handlers let
+ * the consent layer WebView navigate to `google.com` links itself (except
+ * privacy and terms pages), so those are reported but never passed to the
+ * policy; a `block` rule cannot stop them.
+ */
+
+import { Linking } from 'react-native';
+import { addClickLinkListener } from './core';
+import { CmpError } from './errors';
+import { logWarning } from './logger';
+
+/**
+ * - `external`: open with `Linking.openURL` (system browser or app)
+ * - `inApp`: open with the policy's `openInApp`, e.g. an in-app browser
+ * - `route`: show an app screen through the policy's `navigate`
+ * - `block`: do nothing
+ */
+export type LinkAction = 'external' | 'inApp' | 'route' | 'block';
+
+/**
+ * A rule matches when every pattern it sets matches. Host patterns are
+ * case-insensitive; `*.example.com` matches any subdomain of `example.com`.
+ * Path patterns match the whole path; `*` matches any characters, so
+ * `/privacy*` matches `/privacy` and `/privacy-policy/en`.
+ */
+export type LinkRule = {
+  host?: string | RegExp;
+  path?: string | RegExp;
+} & (
+  | { action: Exclude<LinkAction, 'route'> }
+  | {
+      action: 'route';
+      /** Screen passed to `navigate`. */
+      screen: string;
+    }
+);
+
+/**
+ * How a link was handled.
+ */
+export type LinkDecision = {
+  url: string;
+  /**
+   * `rule` when a rule matched, `default` for `defaultAction`, `notAllowed`
+   * when the host is not on the allowlist.
+   */
+  reason: 'rule' | 'default' | 'notAllowed';
+} & (
+  | { action: Exclude<LinkAction, 'route'> }
+  | {
+      action: 'route';
+      /** Screen passed to `navigate`. */
+      screen: string;
+    }
+);
+
+export type LinkHandlingPolicy = {
+  /** Checked in order; the first matching rule wins. */
+  rules?: LinkRule[];
+  /**
+   * Host patterns links may lead to, in the same format as `LinkRule.host`.
+   * Links to any other host are blocked before the rules are checked. Without
+   * an allowlist every host is allowed.
+   */
+  allowlist?: string[];
+  /** Action for links no rule matches. Defaults to `external`. */
+  defaultAction?: Exclude<LinkAction, 'route'>;
+  /** Required when a rule or the default action is `inApp`. */
+  openInApp?: (url: string) => void | Promise<void>;
+  /** Required when a rule is `route`. */
+  navigate?: (screen: string, url: string) => void | Promise<void>;
+  /** Called with every decision, including blocked links. */
+  onLinkHandled?: (decision: LinkDecision) => void;
+};
+
+let policy: LinkHandlingPolicy | null = null;
+let subscription: { remove: () => void } | null = null;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const wildcard = (pattern: string) =>
+  new RegExp(`^${escapeRegExp(pattern).replace(/\*/g, '.*')}$`);
+
+// Scheme, host and path without relying on a full `URL` implementation, which
+// React Native does not ship.
+const parseLink = (url: string) => {
+  const match = /^[a-z][a-z\d+.-]*:(?:\/\/([^/?#]*))?([^?#]*)/i.exec(url);
+  const authority = match?.[1] ?? '';
+  return {
+    host: authority
+      .replace(/^[^@]*@/, '')
+      .replace(/:\d*$/, '')
+      .toLowerCase(),
+    path: match?.[2] ?? '',
+  };
+};
+
+const matchesHost = (pattern: string | RegExp, host: string) => {
+  if (pattern instanceof RegExp) return pattern.test(host);
+  const expected = pattern.toLowerCase();
+  return expected.startsWith('*.')
+    ? host.endsWith(expected.slice(1))
+    : host === expected;
+};
+
+const matchesPath = (pattern: string | RegExp, path: string) =>
+  pattern instanceof RegExp ? pattern.test(path) : wildcard(pattern).test(path);
+
+// Mirrors the link click handlers in CmSdkReactNativeV3Impl.swift and
+// CmSdkReactNativeV3Module.kt: they return false for these links, which lets
+// the WebView load them instead of handing them to the app.
+const isOpenedByWebView = (url: string) =>
+  url.includes('google.com') &&
+  !url.includes('privacy') &&
+  !url.includes('terms');
+
+const invalidPolicy = (message: string) =>
+  new CmpError('INVALID_ARGUMENT', message, {
+    method: 'setLinkHandlingPolicy',
+  });
+
+/**
+ * Decides what to do with a link under the current policy, without opening
+ * it. Without a policy every link opens externally.
+ *
+ * @param url - URL reported by `onClickLink`
+ * @returns The action and why it was chosen
+ */
+export const resolveLinkAction = (url: string): LinkDecision => {
+  const current = policy ?? {};
+  const { host, path } = parseLink(url);
+
+  if (
+    current.allowlist &&
+    !current.allowlist.some((pattern) => matchesHost(pattern, host))
+  ) {
+    return { url, action: 'block', reason: 'notAllowed' };
+  }
+
+  const rule = current.rules?.find(
+    (candidate) =>
+      (candidate.host === undefined || matchesHost(candidate.host, host)) &&
+      (candidate.path === undefined || matchesPath(candidate.path, path))
+  );
+  if (rule) {
+    return rule.action === 'route'
+      ? { url, action: 'route', screen: rule.screen, reason: 'rule' }
+      : { url, action: rule.action, reason: 'rule' };
+  }
+
+  return {
+    url,
+    action: current.defaultAction ?? 'external',
+    reason: 'default',
+  };
+};
+
+const open = async (decision: LinkDecision) => {
+  switch (decision.action) {
+    case 'external':
+      return Linking.openURL(decision.url);
+    case 'inApp':
+      return policy?.openInApp?.(decision.url);
+    case 'route':
+      return policy?.navigate?.(decision.screen, decision.url);
+    case 'block':
+      return;
+  }
+};
+
+// Runs app callbacks off the event emitter, so a throwing or rejecting one is
+// logged instead of breaking other listeners or the next step.
+const runSafely = (step: () => unknown, failure: string) => {
+  Promise.resolve()
+    .then(step)
+    .catch((error) => {
+      logWarning(failure, error);
+    });
+};
+
+const handleLink = (url: string) => {
+  if (isOpenedByWebView(url)) return;
+  const decision = resolveLinkAction(url);
+  const onLinkHandled = policy?.onLinkHandled;
+  if (onLinkHandled) {
+    runSafely(
+      () => onLinkHandled(decision),
+      `onLinkHandled failed for ${decision.url}.`
+    );
+  }
+  runSafely(
+    () => open(decision),
+    `Could not open ${decision.url} (${decision.action}).`
+  );
+};
+
+/**
+ * Handles links tapped in the consent layer according to `next`. Calling it
+ * again replaces the policy; pass `null` to stop handling links.
+ *
+ * @param next - Rules, allowlist, default action and the openers they use
+ * @throws CmpError (`INVALID_ARGUMENT`) if an `inApp` or `route` action has no
+ *   `openInApp` or `navigate`
+ *
+ * @example
+ * ```typescript
+ * setLinkHandlingPolicy({
+ *   allowlist: ['consentmanager.net', '*.consentmanager.net', 'example.com'],
+ *   rules: [
+ *     { host: 'example.com', path: '/privacy*', action: 'route', screen: 'Privacy' },
+ *     { host: '*.consentmanager.net', action: 'inApp' },
+ *   ],
+ *   defaultAction: 'external',
+ *   openInApp: (url) => InAppBrowser.open(url),
+ *   navigate: (screen, url) => navigationRef.navigate(screen, { url }),
+ * });
+ * ```
+ */
+export const setLinkHandlingPolicy = (
+  next: LinkHandlingPolicy | null
+): void => {
+  if (next) {
+    const actions = [
+      ...(next.rules ?? []).map((rule) => rule.action),
+      next.defaultAction ?? 'external',
+    ];
+    if (actions.includes('inApp') && !next.openInApp) {
+      throw invalidPolicy('An inApp action needs an openInApp function.');
+    }
+    if (actions.includes('route') && !next.navigate) {
+      throw invalidPolicy('A route action needs a navigate function.');
+    }
+  }
+
+  subscription?.remove();
+  subscription = null;
+  policy = next;
+  if (next) subscription = addClickLinkListener(handleLink);
+};
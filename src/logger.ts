@@ -0,0 +1,242 @@
+/**
+ * Structured logging for the JS wrapper.
+ *
+ * `core` reports every bridge call and, while a logger wants them, every
+ * native event. Feature modules report their warnings here instead of calling
+ * `console.warn`. Consent strings are redacted before an entry reaches the
+ * sink, so debug logs can be shipped to a log backend.
+ */
+
+import type { CmpErrorCode } from './errors';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * One log record passed to the sink.
+ */
+export type LogEntry = {
+  level: Exclude<LogLevel, 'silent'>;
+  /** ms since the epoch. */
+  timestamp: number;
+  /** `call` for bridge calls, `event` for native events, `message` otherwise. */
+  type: 'call' | 'event' | 'message';
+  message: string;
+  /** Bridge method, for `call` entries. */
+  method?: string;
+  durationMs?: number;
+  outcome?: 'success' | 'failure';
+  /** `CmpError` code of a failed call. */
+  errorCode?: CmpErrorCode;
+  /** Event name, for `event` entries. */
+  event?: string;
+  /** Call arguments and result, or the event payload. */
+  data?: unknown;
+  error?: unknown;
+};
+
+export type LoggerOptions = {
+  /** Entries below this level are dropped. Defaults to `warn`. */
+  level?: LogLevel;
+  /** Receives every entry. Defaults to the matching `console` method. */
+  sink?: (entry: LogEntry) => void;
+  /**
+   * Replace TCF, GPP and US privacy strings, `addtlConsent` and exported CMP
+   * strings with their length. Defaults to true.
+   */
+  redact?: boolean;
+};
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+// Payload keys holding consent strings: `UserStatus.tcf`/`addtlConsent`, the
+// `didReceiveConsent` string and sync records. Keys are compared in lower case
+// without `_` and `-`, and any key ending in `string` also counts, which covers
+// the CMP's own `consentstring`, `gppstring`, `uspstring` and the like in the
+// `didReceiveConsent` `jsonObject`.
+const SENSITIVE_KEYS = new Set([
+  'tcf',
+  'addtlconsent',
+  'consent',
+  'gpp',
+  'usp',
+  'uspapi',
+]);
+
+const isSensitiveKey = (key: string) => {
+  const normalized = key.toLowerCase().replace(/[_-]/g, '');
+  return SENSITIVE_KEYS.has(normalized) || normalized.endsWith('string');
+};
+
+// Methods whose string arguments or result are exported CMP strings.
+const CMP_STRING_METHODS = new Set(['exportCMPInfo', 'importCMPInfo']);
+
+const consoleSink = (entry: LogEntry) => {
+  const message = `[cm-sdk-react-native-v3-new-arch] ${entry.message}`;
+  const details = [entry.data, entry.error].filter(
+    (detail) => detail !== undefined
+  );
+  switch (entry.level) {
+    case 'debug':
+      console.debug(message, ...details);
+      break;
+    case 'info':
+      console.info(message, ...details);
+      break;
+    case 'warn':
+      console.warn(message, ...details);
+      break;
+    case 'error':
+      console.error(message, ...details);
+      break;
+  }
+};
+
+let level: LogLevel = 'warn';
+let sink: (entry: LogEntry) => void = consoleSink;
+let redacting = true;
+const changeListeners = new Set<() => void>();
+
+const redacted = (value: string) => `[redacted ${value.length} chars]`;
+
+const redactDeep = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redactDeep);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [
+      key,
+      isSensitiveKey(key) && typeof nested === 'string' && nested
+        ? redacted(nested)
+        : redactDeep(nested),
+    ])
+  );
+};
+
+const redactCmpStrings = (value: unknown) =>
+  typeof value === 'string' ? redacted(value) : value;
+
+/**
+ * Configures the logger. Pass `null` to restore the defaults: warnings and
+ * errors on the console, redacted.
+ *
+ * @param options - Minimum level, sink and redaction
+ *
+ * @example
+ * ```typescript
+ * setLogger({
+ *   level: __DEV__ ? 'debug' : 'warn',
+ *   sink: (entry) => logBackend.send(entry),
+ * });
+ * ```
+ */
+export const setLogger = (options: LoggerOptions | null): void => {
+  level = options?.level ?? 'warn';
+  sink = options?.sink ?? consoleSink;
+  redacting = options?.redact ?? true;
+  changeListeners.forEach((listener) => listener());
+};
+
+/**
+ * Whether entries at `entryLevel` currently reach the sink.
+ */
+export const isLogging = (entryLevel: LogEntry['level']): boolean =>
+  LEVELS[entryLevel] >= LEVELS[level];
+
+/**
+ * Notifies `core` when the logger changes, so it only listens to native
+ * events while they are logged.
+ *
+ * @returns Function that removes the listener
+ */
+export const addLoggerChangeListener = (listener: () => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+const write = (entry: Omit<LogEntry, 'timestamp'>) => {
+  if (!isLogging(entry.level)) return;
+  try {
+    sink({ timestamp: Date.now(), ...entry });
+  } catch {
+    // A failing sink must not break the call that is being logged.
+  }
+};
+
+/**
+ * Logs a finished bridge call. Successes are `debug`, failures `info`: the
+ * caller gets the rejection, so by default they stay off the console.
+ */
+export const logCall = (
+  method: string,
+  args: unknown[],
+  durationMs: number,
+  outcome: { result: unknown } | { error: { code: CmpErrorCode } }
+) => {
+  const failed = 'error' in outcome;
+  if (!isLogging(failed ? 'info' : 'debug')) return;
+
+  let data: { args: unknown[]; result?: unknown } = failed
+    ? { args }
+    : { args, result: outcome.result };
+  if (redacting) {
+    data = redactDeep(data) as typeof data;
+    if (CMP_STRING_METHODS.has(method)) {
+      data = {
+        ...data,
+        args: data.args.map(redactCmpStrings),
+        ...(!failed && { result: redactCmpStrings(data.result) }),
+      };
+    }
+  }
+
+  write(
+    failed
+      ? {
+          level: 'info',
+          type: 'call',
+          message: `${method} failed after ${durationMs} ms (${outcome.error.code})`,
+          method,
+          durationMs,
+          outcome: 'failure',
+          errorCode: outcome.error.code,
+          data,
+          error: outcome.error,
+        }
+      : {
+          level: 'debug',
+          type: 'call',
+          message: `${method} succeeded in ${durationMs} ms`,
+          method,
+          durationMs,
+          outcome: 'success',
+          data,
+        }
+  );
+};
+
+/**
+ * Logs a native event at `debug`.
+ */
+export const logEvent = (event: string, payload: unknown) => {
+  write({
+    level: 'debug',
+    type: 'event',
+    message: `Event ${event}`,
+    event,
+    data: redacting ? redactDeep(payload) : payload,
+  });
+};
+
+/**
+ * Logs a warning from a feature module, e.g. a failed background write.
+ */
+export const logWarning = (message: string, error?: unknown) => {
+  write({ level: 'warn', type: 'message', message, error });
+};
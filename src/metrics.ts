@@ -0,0 +1,161 @@
+/**
+ * Per-method metrics for bridge calls.
+ *
+ * `core` records every native call here with its latency and outcome.
+ * `getMetrics` summarizes them per method and `onCallComplete` forwards each
+ * call as it finishes, e.g. to an APM.
+ */
+
+import type { CmpErrorCode } from './errors';
+
+/**
+ * One finished bridge call.
+ */
+export type CallMetric = {
+  /** Native method, e.g. `getUserStatus`. */
+  method: string;
+  durationMs: number;
+  success: boolean;
+  /** `CmpError` code of a failed call. */
+  errorCode?: CmpErrorCode;
+  /** When the call finished (ms since the epoch). */
+  timestamp: number;
+};
+
+/**
+ * Summary of one method's calls since start or `resetMetrics()`. Latencies
+ * cover the last 1000 calls.
+ */
+export type MethodMetrics = {
+  calls: number;
+  failures: number;
+  /** Failures per `CmpError` code. */
+  errorCodes: Partial<Record<CmpErrorCode, number>>;
+  minMs: number;
+  maxMs: number;
+  meanMs: number;
+  p50Ms: number;
+  p90Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+};
+
+const MAX_SAMPLES = 1000;
+
+type MethodRecord = {
+  calls: number;
+  failures: number;
+  errorCodes: Partial<Record<CmpErrorCode, number>>;
+  durations: number[];
+};
+
+const records = new Map<string, MethodRecord>();
+const listeners = new Set<(metric: CallMetric) => void>();
+
+// Nearest-rank percentile of sorted durations.
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)] ?? 0;
+
+/**
+ * Records a finished call and notifies `onCallComplete` listeners.
+ */
+export const recordCall = (
+  method: string,
+  durationMs: number,
+  errorCode?: CmpErrorCode
+) => {
+  const record = records.get(method) ?? {
+    calls: 0,
+    failures: 0,
+    errorCodes: {},
+    durations: [],
+  };
+  record.calls += 1;
+  if (errorCode) {
+    record.failures += 1;
+    record.errorCodes[errorCode] = (record.errorCodes[errorCode] ?? 0) + 1;
+  }
+  record.durations.push(durationMs);
+  if (record.durations.length > MAX_SAMPLES) record.durations.shift();
+  records.set(method, record);
+
+  const metric: CallMetric = {
+    method,
+    durationMs,
+    success: !errorCode,
+    ...(errorCode && { errorCode }),
+    timestamp: Date.now(),
+  };
+  listeners.forEach((listener) => {
+    try {
+      listener(metric);
+    } catch {
+      // A failing listener must not break the call it observes.
+    }
+  });
+};
+
+/**
+ * Summarizes the recorded calls per native method.
+ *
+ * @returns Call counts, failures and latency percentiles keyed by method
+ *
+ * @example
+ * ```typescript
+ * const { getUserStatus } = getMetrics();
+ * console.log(`getUserStatus p95: ${getUserStatus?.p95Ms} ms`);
+ * ```
+ */
+export const getMetrics = (): Record<string, MethodMetrics> =>
+  Object.fromEntries(
+    [...records].map(([method, record]) => {
+      const sorted = [...record.durations].sort((a, b) => a - b);
+      const total = sorted.reduce((sum, duration) => sum + duration, 0);
+      return [
+        method,
+        {
+          calls: record.calls,
+          failures: record.failures,
+          errorCodes: { ...record.errorCodes },
+          minMs: sorted[0] ?? 0,
+          maxMs: sorted[sorted.length - 1] ?? 0,
+          meanMs: sorted.length ? total / sorted.length : 0,
+          p50Ms: percentile(sorted, 50),
+          p90Ms: percentile(sorted, 90),
+          p95Ms: percentile(sorted, 95),
+          p99Ms: percentile(sorted, 99),
+        },
+      ];
+    })
+  );
+
+/**
+ * Clears every recorded call, e.g. after reporting a batch.
+ */
+export const resetMetrics = (): void => {
+  records.clear();
+};
+
+/**
+ * Registers a listener called after every native call, successful or not.
+ *
+ * @param listener - Receives the method, latency and outcome
+ * @returns Subscription that should be removed on cleanup
+ *
+ * @example
+ * ```typescript
+ * const subscription = onCallComplete(({ method, durationMs, success }) => {
+ *   apm.recordTiming(`cmp.${method}`, durationMs, { success });
+ * });
+ * ```
+ */
+export const onCallComplete = (
+  listener: (metric: CallMetric) => void
+): { remove: () => void } => {
+  listeners.add(listener);
+  return {
+    remove: () => {
+      listeners.delete(listener);
+    },
+  };
+};
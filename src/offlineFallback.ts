@@ -0,0 +1,173 @@
+/**
+ * Offline fallback for `resolveConsent`.
+ *
+ * Once enabled, every successful resolution is kept as a snapshot. When a later
+ * live resolution fails (or takes longer than `timeoutMs`), `resolveConsent`
+ * returns that snapshot flagged `stale: true` instead of rejecting, so the app
+ * keeps honoring the consent the user already gave while the CMP endpoint is
+ * unreachable.
+ */
+
+import { CmpError, toCmpError } from './errors';
+import type { ConsentResolution } from './core';
+import { logWarning } from './logger';
+import { withDeadline } from './retry';
+
+/**
+ * Last good resolution as persisted by the fallback.
+ */
+export type ConsentSnapshot = {
+  /** Milliseconds since the epoch when the resolution completed. */
+  savedAt: number;
+  resolution: ConsentResolution;
+};
+
+/**
+ * Where the snapshot is kept. `load` returns `null` when there is none. Back
+ * it with AsyncStorage, MMKV or a file so it survives a cold start offline.
+ */
+export type ConsentSnapshotStorage = {
+  load: () => Promise<ConsentSnapshot | null>;
+  save: (snapshot: ConsentSnapshot) => Promise<void>;
+};
+
+export type OfflineFallbackOptions = {
+  /** Defaults to `createMemorySnapshotStorage()`, which forgets on restart. */
+  storage?: ConsentSnapshotStorage;
+  /**
+   * Serve the snapshot when the live resolution has not completed after this
+   * long. Without a usable snapshot the live resolution is still awaited. By
+   * default only failures fall back.
+   */
+  timeoutMs?: number;
+  /** Snapshots older than this are never served. No limit by default. */
+  maxAgeMs?: number;
+  /**
+   * Decides whether a stale resolution may be used, e.g. per regulation.
+   * `reason` is the failure of the live resolution (`TIMEOUT` when
+   * `timeoutMs` passed). Every snapshot within `maxAgeMs` is accepted by
+   * default.
+   */
+  acceptStale?: (stale: ConsentResolution, reason: CmpError) => boolean;
+};
+
+/**
+ * Storage that keeps the snapshot in memory for the lifetime of the JS runtime.
+ */
+export const createMemorySnapshotStorage = (): ConsentSnapshotStorage => {
+  let snapshot: ConsentSnapshot | null = null;
+  return {
+    load: async () => snapshot,
+    save: async (next) => {
+      snapshot = next;
+    },
+  };
+};
+
+let options: OfflineFallbackOptions | null = null;
+let storage: ConsentSnapshotStorage | null = null;
+// The newest snapshot of this session; storage is only read when there is none
+// yet, so a pending write can never hand back an older one.
+let latest: ConsentSnapshot | null = null;
+
+/**
+ * Turns on the offline fallback for `resolveConsent`. Calling it again
+ * replaces the options.
+ *
+ * @param next - Storage, timeout and acceptance policy
+ *
+ * @example
+ * ```typescript
+ * enableOfflineFallback({
+ *   storage: {
+ *     load: async () =>
+ *       JSON.parse((await AsyncStorage.getItem('consent-snapshot')) ?? 'null'),
+ *     save: (snapshot) =>
+ *       AsyncStorage.setItem('consent-snapshot', JSON.stringify(snapshot)),
+ *   },
+ *   timeoutMs: 3000,
+ *   maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+ *   // Under GDPR only rely on a snapshot in which the user already decided.
+ *   acceptStale: (stale) =>
+ *     stale.regulation !== 'GDPR' || !stale.consentRequired,
+ * });
+ * ```
+ */
+export const enableOfflineFallback = (
+  next: OfflineFallbackOptions = {}
+): void => {
+  const target = next.storage ?? createMemorySnapshotStorage();
+  if (target !== storage) latest = null;
+  options = next;
+  storage = target;
+};
+
+/**
+ * Turns the offline fallback off. The persisted snapshot is left in storage.
+ */
+export const disableOfflineFallback = (): void => {
+  options = null;
+  storage = null;
+  latest = null;
+};
+
+const remember = (resolution: ConsentResolution) => {
+  const target = storage;
+  if (!target) return;
+  latest = { savedAt: Date.now(), resolution };
+  target.save(latest).catch((error) => {
+    logWarning('Could not save the consent snapshot.', error);
+  });
+};
+
+const staleResolution = async (
+  reason: CmpError
+): Promise<ConsentResolution | null> => {
+  const current = options;
+  const snapshot = latest ?? (await storage?.load().catch(() => null)) ?? null;
+  if (!current || !snapshot) return null;
+
+  const ageMs = Math.max(Date.now() - snapshot.savedAt, 0);
+  if (current.maxAgeMs !== undefined && ageMs > current.maxAgeMs) return null;
+
+  const stale: ConsentResolution = {
+    ...snapshot.resolution,
+    stale: true,
+    ageMs,
+  };
+  return current.acceptStale && !current.acceptStale(stale, reason)
+    ? null
+    : stale;
+};
+
+/**
+ * Applies the offline fallback to a live resolution. Used by
+ * `resolveConsent`; not part of the public API.
+ */
+export const withOfflineFallback = async (
+  live: Promise<ConsentResolution>
+): Promise<ConsentResolution> => {
+  const current = options;
+  if (!current) return live;
+
+  live.then(remember, () => {});
+  const { timeoutMs } = current;
+  const timedOut = new CmpError(
+    'TIMEOUT',
+    `[cm-sdk-react-native-v3-new-arch] resolveConsent did not complete within ${timeoutMs} ms.`,
+    { method: 'resolveConsent' }
+  );
+
+  try {
+    return await (timeoutMs === undefined
+      ? live
+      : withDeadline(live, timeoutMs, () => timedOut));
+  } catch (error) {
+    const reason = toCmpError(error, 'resolveConsent');
+    const stale = await staleResolution(reason);
+    if (stale) return stale;
+    // A slow resolution without a usable snapshot is still worth waiting for.
+    if (reason === timedOut) return live;
+    throw reason;
+  }
+};
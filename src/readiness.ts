@@ -0,0 +1,54 @@
+/**
+ * Tracks whether the CMP has been configured.
+ *
+ * `setUrlConfig` (directly or through `initialize`) moves the state to
+ * `ready`; until then the consent wrappers wait or reject instead of failing
+ * natively. Shared by `core` and `initialize`; not part of the public API.
+ */
+
+/**
+ * - `idle`: nothing configured yet
+ * - `initializing`: `initialize()` or `setUrlConfig()` is running
+ * - `ready`: the URL config was applied
+ * - `failed`: the last initialization attempt failed
+ */
+export type InitState = 'idle' | 'initializing' | 'ready' | 'failed';
+
+type Waiter = { resolve: () => void; reject: (error: unknown) => void };
+
+let state: InitState = 'idle';
+let failure: unknown;
+let waiters: Waiter[] = [];
+
+const settle = (next: 'ready' | 'failed', error?: unknown) => {
+  state = next;
+  failure = error;
+  const pending = waiters;
+  waiters = [];
+  pending.forEach((waiter) =>
+    next === 'ready' ? waiter.resolve() : waiter.reject(error)
+  );
+};
+
+export const readiness = {
+  getState: (): InitState => state,
+  /** Error of the last failed attempt, if the state is `failed`. */
+  getFailure: (): unknown => failure,
+  begin: () => {
+    state = 'initializing';
+    failure = undefined;
+  },
+  succeed: () => settle('ready'),
+  fail: (error: unknown) => settle('failed', error),
+  /**
+   * Resolves once the state is `ready`; rejects with the error of a failed
+   * attempt. Waits across `idle` until an attempt starts.
+   */
+  whenReady: (): Promise<void> => {
+    if (state === 'ready') return Promise.resolve();
+    if (state === 'failed') return Promise.reject(failure);
+    return new Promise((resolve, reject) => {
+      waiters.push({ resolve, reject });
+    });
+  },
+};
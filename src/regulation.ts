@@ -0,0 +1,138 @@
+/**
+ * Typed regulations and what they mean for the consent UI.
+ *
+ * The native SDKs report `UserStatus.regulation` as a plain string, and an
+ * empty one early in the lifecycle. `normalizeRegulation` maps those strings
+ * to a closed union, and the helpers answer the questions apps branch on:
+ * opt-in or opt-out, whether a "Do Not Sell or Share" entry point is
+ * required, and what to assume before the user decided.
+ */
+
+/**
+ * - `GDPR`: EU / EEA and UK GDPR
+ * - `CCPA`: California (CCPA / CPRA)
+ * - `USNAT`: US national privacy section, covering the US state laws together
+ * - `US_STATE`: another single US state law, e.g. Virginia or Colorado
+ * - `LGPD`: Brazil
+ * - `NONE`: no regulation applies
+ * - `UNKNOWN`: empty or unrecognized; not the same as `NONE`
+ */
+export type Regulation =
+  'GDPR' | 'CCPA' | 'USNAT' | 'US_STATE' | 'LGPD' | 'NONE' | 'UNKNOWN';
+
+/**
+ * `optIn`: nothing may be processed before consent. `optOut`: processing is
+ * allowed until the user objects.
+ */
+export type ConsentModel = 'optIn' | 'optOut';
+
+/**
+ * Regulations `UrlConfig.forceRegulation` accepts.
+ */
+export const FORCEABLE_REGULATIONS = ['GDPR', 'CCPA', 'LGPD', 'USNAT'] as const;
+
+const REGULATIONS = new Set<string>([
+  'GDPR',
+  'CCPA',
+  'USNAT',
+  'US_STATE',
+  'LGPD',
+  'NONE',
+  'UNKNOWN',
+]);
+
+// Spellings seen from the native SDKs and CMP backends, compared without
+// case, spaces, dashes and underscores.
+const ALIASES: Record<string, Regulation> = {
+  GDPR: 'GDPR',
+  EUGDPR: 'GDPR',
+  UKGDPR: 'GDPR',
+  CCPA: 'CCPA',
+  CPRA: 'CCPA',
+  USCA: 'CCPA',
+  USNAT: 'USNAT',
+  USNATIONAL: 'USNAT',
+  LGPD: 'LGPD',
+  NONE: 'NONE',
+  NOREGULATION: 'NONE',
+};
+
+// GPP-style US state sections: USVA, USCO, USCT, USUT, ...
+const US_STATE = /^US[A-Z]{2}$/;
+
+/**
+ * Maps a regulation string from the native SDK or the CMP to `Regulation`.
+ *
+ * @param value - e.g. `UserStatus.regulation`
+ * @returns The regulation; `UNKNOWN` for empty or unrecognized values
+ *
+ * @example
+ * ```typescript
+ * const { userStatus } = await resolveConsent();
+ * const regulation = normalizeRegulation(userStatus.regulation); // 'GDPR'
+ * ```
+ */
+export const normalizeRegulation = (
+  value: string | null | undefined
+): Regulation => {
+  const trimmed = (value ?? '').trim();
+  if (REGULATIONS.has(trimmed)) return trimmed as Regulation;
+
+  const key = trimmed.toUpperCase().replace(/[\s_-]/g, '');
+  if (!key) return 'UNKNOWN';
+  return ALIASES[key] ?? (US_STATE.test(key) ? 'US_STATE' : 'UNKNOWN');
+};
+
+/**
+ * Whether the regulation is opt-in or opt-out.
+ *
+ * @param regulation - A `Regulation` or a raw string, normalized first
+ * @returns The consent model, or null for `NONE` and `UNKNOWN`
+ */
+export const getConsentModel = (regulation: string): ConsentModel | null => {
+  switch (normalizeRegulation(regulation)) {
+    case 'GDPR':
+    case 'LGPD':
+      return 'optIn';
+    case 'CCPA':
+    case 'USNAT':
+    case 'US_STATE':
+      return 'optOut';
+    case 'NONE':
+    case 'UNKNOWN':
+      return null;
+  }
+};
+
+/**
+ * Whether the app must offer a "Do Not Sell or Share My Personal
+ * Information" entry point, which the US opt-out laws require.
+ *
+ * @param regulation - A `Regulation` or a raw string, normalized first
+ * @returns true for `CCPA`, `USNAT` and `US_STATE`
+ */
+export const requiresDoNotSellLink = (regulation: string): boolean =>
+  getConsentModel(regulation) === 'optOut';
+
+/**
+ * What to assume for purposes and vendors before the user made a choice.
+ * Opt-in regulations start denied and opt-out regulations granted. Without a
+ * regulation processing is allowed; an unknown one is treated as opt-in, since
+ * a regulation may still apply.
+ *
+ * @param regulation - A `Regulation` or a raw string, normalized first
+ * @returns The stance to apply until consent is given
+ *
+ * @example
+ * ```typescript
+ * const stance = getDefaultConsentStance(userStatus.regulation);
+ * analytics.setEnabled(stance === 'granted');
+ * ```
+ */
+export const getDefaultConsentStance = (
+  regulation: string
+): 'granted' | 'denied' => {
+  const normalized = normalizeRegulation(regulation);
+  if (normalized === 'NONE') return 'granted';
+  return getConsentModel(normalized) === 'optOut' ? 'granted' : 'denied';
+};
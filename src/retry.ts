@@ -0,0 +1,190 @@
+/**
+ * Retry policy for the network-bound calls.
+ *
+ * `isConsentRequired`, `checkAndOpen` and `forceOpen` drive the CMP WebView
+ * and can fail on a flaky connection. With a policy set, they are retried with
+ * exponential backoff and jitter within an overall deadline; `resolveConsent`
+ * inherits it through `isConsentRequired`. Without a policy (the default)
+ * every call runs exactly once.
+ */
+
+import { CmpError, toCmpError, type CmpErrorCode } from './errors';
+
+export type RetryPolicy = {
+  /** Total attempts including the first one. Defaults to 3. */
+  attempts?: number;
+  /** Delay before the first retry. Defaults to 500 ms. */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay. Defaults to 8000 ms. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each retry. Defaults to 2. */
+  backoffFactor?: number;
+  /**
+   * Fraction of each delay that is randomized, from 0 (none) to 1 (full
+   * jitter). Defaults to 0.5, so a 1000 ms delay becomes 500–1000 ms.
+   */
+  jitter?: number;
+  /**
+   * Budget for the whole call including retries. An attempt still running at
+   * the deadline is abandoned and the call rejects with `TIMEOUT`. No
+   * deadline by default.
+   */
+  deadlineMs?: number;
+  /**
+   * Decides whether a failure is worth another attempt. Defaults to
+   * `isRetryableError`.
+   */
+  shouldRetry?: (error: CmpError, attempt: number) => boolean;
+};
+
+/**
+ * Emitted before each retry.
+ */
+export type RetryEvent = {
+  /** Wrapper being retried, e.g. `isConsentRequired`. */
+  method: string;
+  /** Number of the attempt that failed, starting at 1. */
+  attempt: number;
+  /** Wait before the next attempt. */
+  delayMs: number;
+  error: CmpError;
+};
+
+const RETRYABLE_CODES = new Set<CmpErrorCode>([
+  'INIT_ERROR',
+  'STATUS_ERROR',
+  'CONSENT_ERROR',
+  'TIMEOUT',
+  'UNKNOWN',
+]);
+
+/**
+ * Default retryability: transient failures (`INIT_ERROR`, `STATUS_ERROR`,
+ * `CONSENT_ERROR`, `TIMEOUT`, `UNKNOWN`) are retried; configuration, argument
+ * and availability errors are not.
+ *
+ * @param error - Failure of the last attempt
+ * @returns true if another attempt may succeed
+ */
+export const isRetryableError = (error: CmpError): boolean =>
+  RETRYABLE_CODES.has(error.code);
+
+let policy: RetryPolicy | null = null;
+const listeners = new Set<(event: RetryEvent) => void>();
+
+/**
+ * Sets the retry policy for `isConsentRequired`, `checkAndOpen`, `forceOpen`
+ * and `resolveConsent`. Pass `null` to turn retries off again.
+ *
+ * @param next - Policy to apply; omitted fields use their defaults
+ *
+ * @example
+ * ```typescript
+ * setRetryPolicy({
+ *   attempts: 4,
+ *   initialDelayMs: 300,
+ *   deadlineMs: 10_000,
+ *   shouldRetry: (error) => error.code !== 'CONFIG_ERROR',
+ * });
+ * ```
+ */
+export const setRetryPolicy = (next: RetryPolicy | null): void => {
+  policy = next;
+};
+
+/**
+ * Registers a listener called before each retry.
+ *
+ * @param callback - Function called with the failed attempt and the delay
+ * @returns Subscription that should be removed on cleanup
+ */
+export const addRetryListener = (
+  callback: (event: RetryEvent) => void
+): { remove: () => void } => {
+  listeners.add(callback);
+  return {
+    remove: () => {
+      listeners.delete(callback);
+    },
+  };
+};
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const timeoutError = (method: string, deadlineMs: number) =>
+  new CmpError(
+    'TIMEOUT',
+    `[cm-sdk-react-native-v3-new-arch] ${method} did not complete within ${deadlineMs} ms.`,
+    { method }
+  );
+
+/**
+ * Rejects with `error()` if `call` is still pending after `ms`. Shared with the
+ * offline fallback; not part of the public API.
+ */
+export const withDeadline = <T>(
+  call: Promise<T>,
+  ms: number,
+  error: () => CmpError
+): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(error()), ms);
+  });
+  return Promise.race([call, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Runs `call` under the current retry policy. Used by the wrappers; not part
+ * of the public API.
+ */
+export const withRetry = async <T>(
+  method: string,
+  call: () => Promise<T>
+): Promise<T> => {
+  const current = policy;
+  if (!current) return call();
+
+  const {
+    attempts = 3,
+    initialDelayMs = 500,
+    maxDelayMs = 8000,
+    backoffFactor = 2,
+    jitter = 0.5,
+    deadlineMs,
+    shouldRetry = isRetryableError,
+  } = current;
+  const deadline = deadlineMs === undefined ? null : Date.now() + deadlineMs;
+  const remaining = () =>
+    deadline === null ? Infinity : deadline - Date.now();
+  let nextDelay = initialDelayMs;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const pending = call();
+      return await (deadline === null
+        ? pending
+        : withDeadline(pending, Math.max(remaining(), 0), () =>
+            timeoutError(method, deadlineMs!)
+          ));
+    } catch (error) {
+      const cmpError = toCmpError(error, method);
+      if (attempt >= attempts || !shouldRetry(cmpError, attempt)) {
+        throw cmpError;
+      }
+
+      const wait = Math.round(
+        Math.min(nextDelay, maxDelayMs) * (1 - jitter * Math.random())
+      );
+      // Also ends the loop once an attempt ran into the deadline.
+      if (wait >= remaining()) throw cmpError;
+
+      listeners.forEach((listener) =>
+        listener({ method, attempt, delayMs: wait, error: cmpError })
+      );
+      await delay(wait);
+      nextDelay *= backoffFactor;
+    }
+  }
+};
@@ -0,0 +1,236 @@
+/**
+ * Decoder for IAB TCF v2 consent strings (`UserStatus.tcf`).
+ *
+ * Pure TypeScript with no native dependency, so consent logic that reasons in
+ * IAB purpose and vendor numbers can be unit tested without a device.
+ *
+ * @see https://github.com/InteractiveAdvertisingBureau/GDPR-Transparency-and-Consent-Framework/blob/master/TCFv2/IAB%20Tech%20Lab%20-%20Consent%20string%20and%20vendor%20list%20formats%20v2.md
+ */
+
+/**
+ * Publisher restriction types defined by the TCF v2 specification.
+ */
+export enum TCRestrictionType {
+  NotAllowed = 0,
+  RequireConsent = 1,
+  RequireLegitimateInterest = 2,
+}
+
+/**
+ * A publisher restriction for one purpose and a set of vendors.
+ */
+export type TCPublisherRestriction = {
+  purposeId: number;
+  restrictionType: TCRestrictionType;
+  vendorIds: number[];
+};
+
+/**
+ * Decoded TCF v2 consent string.
+ *
+ * Id lists (purposes, special features, vendors) contain the ids whose bit is
+ * set, in ascending order.
+ */
+export type TCString = {
+  version: number;
+  created: Date;
+  lastUpdated: Date;
+  cmpId: number;
+  cmpVersion: number;
+  consentScreen: number;
+  /** Two-letter ISO 639-1 language code, upper case. */
+  consentLanguage: string;
+  vendorListVersion: number;
+  policyVersion: number;
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  specialFeatureOptIns: number[];
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  purposeOneTreatment: boolean;
+  /** Two-letter ISO 3166-1 alpha-2 country code, upper case. */
+  publisherCountryCode: string;
+  vendorConsents: number[];
+  vendorLegitimateInterests: number[];
+  publisherRestrictions: TCPublisherRestriction[];
+  /** Vendors disclosed to the user, or `undefined` without that segment. */
+  disclosedVendors: number[] | undefined;
+};
+
+const BASE64_URL =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const SEGMENT_DISCLOSED_VENDORS = 1;
+
+// Vendor ids are 16-bit fields.
+const MAX_VENDOR_ID = 0xffff;
+const MAX_RESTRICTED_IDS = 0xffff;
+
+const invalid = (reason: string): Error =>
+  new Error(`[cm-sdk-react-native-v3-new-arch] Invalid TC string: ${reason}`);
+
+// Reads big-endian bit fields from a base64url-encoded segment.
+const createBitReader = (segment: string) => {
+  let bits = '';
+  for (const char of segment) {
+    const value = BASE64_URL.indexOf(char);
+    if (value < 0) {
+      throw invalid(`unexpected character "${char}"`);
+    }
+    bits += value.toString(2).padStart(6, '0');
+  }
+  let offset = 0;
+
+  const int = (length: number): number => {
+    if (offset + length > bits.length) {
+      throw invalid('segment is truncated');
+    }
+    const slice = bits.slice(offset, offset + length);
+    offset += length;
+    return parseInt(slice, 2);
+  };
+
+  const bool = (): boolean => int(1) === 1;
+
+  // Deciseconds since the epoch.
+  const date = (): Date => new Date(int(36) * 100);
+
+  const letters = (): string => {
+    const letter = () => String.fromCharCode(65 + int(6));
+    return letter() + letter();
+  };
+
+  const bitField = (length: number): number[] => {
+    const ids: number[] = [];
+    for (let id = 1; id <= length; id++) {
+      if (bool()) ids.push(id);
+    }
+    return ids;
+  };
+
+  // Every range must lie within 1..maxId, and the ranges together may not
+  // cover more than `maxCount` ids. The bounds are checked before anything is
+  // expanded, so a hostile string cannot make the decoder allocate millions of
+  // ids from a few bytes.
+  const ranges = (maxId: number, maxCount = maxId): number[] => {
+    const entries: Array<[number, number]> = [];
+    let count = 0;
+    const numEntries = int(12);
+    for (let i = 0; i < numEntries; i++) {
+      const isRange = bool();
+      const start = int(16);
+      const end = isRange ? int(16) : start;
+      if (end < start) {
+        throw invalid(`range ${start}-${end} is reversed`);
+      }
+      if (start < 1 || end > maxId) {
+        throw invalid(`range ${start}-${end} is outside 1-${maxId}`);
+      }
+      count += end - start + 1;
+      if (count > maxCount) {
+        throw invalid('ranges cover too many vendor ids');
+      }
+      entries.push([start, end]);
+    }
+
+    const ids: number[] = [];
+    for (const [start, end] of entries) {
+      for (let id = start; id <= end; id++) ids.push(id);
+    }
+    return ids;
+  };
+
+  const vendors = (): number[] => {
+    const maxVendorId = int(16);
+    const isRangeEncoding = bool();
+    return isRangeEncoding ? ranges(maxVendorId) : bitField(maxVendorId);
+  };
+
+  return { int, bool, date, letters, bitField, ranges, vendors };
+};
+
+const decodeCore = (segment: string) => {
+  const reader = createBitReader(segment);
+
+  const version = reader.int(6);
+  if (version !== 2) {
+    throw invalid(`unsupported version ${version}`);
+  }
+
+  const core = {
+    version,
+    created: reader.date(),
+    lastUpdated: reader.date(),
+    cmpId: reader.int(12),
+    cmpVersion: reader.int(12),
+    consentScreen: reader.int(6),
+    consentLanguage: reader.letters(),
+    vendorListVersion: reader.int(12),
+    policyVersion: reader.int(6),
+    isServiceSpecific: reader.bool(),
+    useNonStandardTexts: reader.bool(),
+    specialFeatureOptIns: reader.bitField(12),
+    purposeConsents: reader.bitField(24),
+    purposeLegitimateInterests: reader.bitField(24),
+    purposeOneTreatment: reader.bool(),
+    publisherCountryCode: reader.letters(),
+    vendorConsents: reader.vendors(),
+    vendorLegitimateInterests: reader.vendors(),
+  };
+
+  // Restrictions carry no max vendor id of their own. Together they may list
+  // at most MAX_RESTRICTED_IDS vendor ids, far more than the purposes times
+  // the vendors of the Global Vendor List.
+  const publisherRestrictions: TCPublisherRestriction[] = [];
+  let restrictedIds = 0;
+  const numRestrictions = reader.int(12);
+  for (let i = 0; i < numRestrictions; i++) {
+    const purposeId = reader.int(6);
+    const restrictionType = reader.int(2) as TCRestrictionType;
+    const vendorIds = reader.ranges(
+      MAX_VENDOR_ID,
+      MAX_RESTRICTED_IDS - restrictedIds
+    );
+    restrictedIds += vendorIds.length;
+    publisherRestrictions.push({ purposeId, restrictionType, vendorIds });
+  }
+
+  return { ...core, publisherRestrictions };
+};
+
+/**
+ * Decodes a TCF v2 consent string such as `UserStatus.tcf`.
+ *
+ * Segments other than the core string and the disclosed-vendors segment are
+ * ignored.
+ *
+ * @param tcString - The TC string, e.g. from `getUserStatus().tcf`
+ * @throws Error if the string is empty, malformed or not version 2
+ * @returns The decoded consent string
+ *
+ * @example
+ * ```typescript
+ * const { tcf } = await getUserStatus();
+ * if (tcf) {
+ *   const decoded = decodeTCString(tcf);
+ *   const canStore = decoded.purposeConsents.includes(1);
+ *   const vendorOk = decoded.vendorConsents.includes(755);
+ * }
+ * ```
+ */
+export const decodeTCString = (tcString: string): TCString => {
+  const [coreSegment, ...segments] = tcString.trim().split('.');
+  if (!coreSegment) {
+    throw invalid('string is empty');
+  }
+
+  let disclosedVendors: number[] | undefined;
+  for (const segment of segments) {
+    const reader = createBitReader(segment);
+    if (reader.int(3) === SEGMENT_DISCLOSED_VENDORS) {
+      disclosedVendors = reader.vendors();
+    }
+  }
+
+  return { ...decodeCore(coreSegment), disclosedVendors };
+};
@@ -0,0 +1,468 @@
+/**
+ * Test utilities, published as `cm-sdk-react-native-v3-new-arch/testing`.
+ *
+ * `createFakeCmSdk` is an in-memory implementation of the native module spec.
+ * Consent calls change its state the way the native SDKs do, and the
+ * `simulate*` helpers emit the events the consent layer would emit, so app
+ * tests can drive a consent flow without hand-mocking every method.
+ *
+ * Nothing here depends on Jest; it only needs `react-native` to be resolvable.
+ */
+
+import { DeviceEventEmitter, TurboModuleRegistry } from 'react-native';
+import type {
+  ConsentStatusValue,
+  GoogleConsentModeStatus,
+  NativeUserStatus,
+  Spec,
+  ThirdPartyConsentStatus,
+  UrlConfig,
+  UserChoiceStatus,
+  WebViewConfig,
+} from './NativeCmSdkReactNativeV3';
+
+const MODULE_NAME = 'CmSdkReactNativeV3';
+
+/**
+ * Everything the fake keeps in memory. Returned as a copy by `getState()`.
+ */
+export type FakeCmSdkState = {
+  /** `choiceExists` once a decision was made, `choiceDoesntExist` before. */
+  status: UserChoiceStatus;
+  vendors: Record<string, ConsentStatusValue>;
+  purposes: Record<string, ConsentStatusValue>;
+  regulation: string;
+  tcf: string;
+  addtlConsent: string;
+  /** Answer of `isConsentRequired()`; cleared by every decision. */
+  consentRequired: boolean;
+  /** Whether the consent layer is currently shown. */
+  layerVisible: boolean;
+  googleConsentMode: GoogleConsentModeStatus;
+  /** Last config passed to `setUrlConfig`, `null` before the first call. */
+  urlConfig: UrlConfig | null;
+  /** Last config passed to `setWebViewConfig`, `null` before the first call. */
+  webViewConfig: WebViewConfig | null;
+  attStatus: number;
+};
+
+export type FakeCmSdkOptions = Partial<
+  Pick<
+    FakeCmSdkState,
+    | 'vendors'
+    | 'purposes'
+    | 'regulation'
+    | 'tcf'
+    | 'addtlConsent'
+    | 'consentRequired'
+    | 'googleConsentMode'
+  >
+> & {
+  /**
+   * Delivers an event to the package listeners. Defaults to
+   * `DeviceEventEmitter.emit`, which is what `NativeEventEmitter` listens to.
+   */
+  emit?: (eventName: string, payload?: unknown) => void;
+};
+
+/**
+ * Choice applied by `simulateConsentReceived`: accept or reject everything
+ * the fake knows about, or set individual purposes and vendors.
+ */
+export type FakeConsentDecision =
+  | 'acceptAll'
+  | 'rejectAll'
+  | {
+      vendors?: Record<string, ConsentStatusValue>;
+      purposes?: Record<string, ConsentStatusValue>;
+      tcf?: string;
+      addtlConsent?: string;
+    };
+
+type FakeMethodName = Exclude<
+  keyof Spec,
+  'addListener' | 'removeListeners' | 'getConstants'
+>;
+
+export type FakeCmSdk = Spec & {
+  /** Returns a copy of the current in-memory state. */
+  getState: () => FakeCmSdkState;
+  /** Restores the state the fake was created with. */
+  reset: () => void;
+  /**
+   * Makes the next call to `method` reject like the native SDK would, with
+   * `code` as the native error code (`E_CONSENT_ERROR` by default).
+   */
+  rejectNext: (method: FakeMethodName, message: string, code?: string) => void;
+  /**
+   * Applies a decision made in the consent layer, emits `didReceiveConsent`
+   * and closes the layer if it is shown.
+   */
+  simulateConsentReceived: (decision?: FakeConsentDecision) => void;
+  /** Emits `didReceiveError`. */
+  simulateError: (error: string) => void;
+  /** Shows the consent layer and emits `didShowConsentLayer`. */
+  simulateLayerShown: () => void;
+  /** Closes the consent layer and emits `didCloseConsentLayer`. */
+  simulateLayerClosed: () => void;
+  /** Emits `onClickLink`, as a link tap in the consent layer does. */
+  simulateLinkClick: (url: string) => void;
+  /** Updates the ATT status and emits `didChangeATTStatus`. */
+  simulateATTStatusChange: (newStatus: number) => void;
+};
+
+const mapIds = (
+  entries: Record<string, ConsentStatusValue>,
+  value: ConsentStatusValue
+) =>
+  Object.fromEntries(Object.keys(entries).map((id) => [id, value])) as Record<
+    string,
+    ConsentStatusValue
+  >;
+
+const nativeError = (message: string, code: string) =>
+  Object.assign(new Error(message), { code });
+
+/**
+ * Creates an in-memory fake of the native module.
+ *
+ * Purposes and vendors only exist once they are seeded through `options` or
+ * touched by a call, so `acceptAll()` grants what the fake knows about.
+ *
+ * @param options - Initial consent state and the event sink
+ * @returns A `Spec` implementation with test controls
+ *
+ * @example
+ * ```typescript
+ * const cmp = createFakeCmSdk({
+ *   purposes: { c52: 'choiceDoesntExist' },
+ *   vendors: { s2789: 'choiceDoesntExist' },
+ * });
+ *
+ * await cmp.acceptAll();
+ * cmp.getState().purposes.c52; // 'granted'
+ * ```
+ */
+export const createFakeCmSdk = (options: FakeCmSdkOptions = {}): FakeCmSdk => {
+  const emit =
+    options.emit ??
+    ((eventName: string, payload?: unknown) =>
+      DeviceEventEmitter.emit(eventName, payload));
+
+  const initialState = (): FakeCmSdkState => {
+    const consentRequired = options.consentRequired ?? true;
+    return {
+      status: consentRequired ? 'choiceDoesntExist' : 'choiceExists',
+      vendors: { ...options.vendors },
+      purposes: { ...options.purposes },
+      regulation: options.regulation ?? 'GDPR',
+      tcf: options.tcf ?? '',
+      addtlConsent: options.addtlConsent ?? '',
+      consentRequired,
+      layerVisible: false,
+      googleConsentMode: {
+        ad_storage: 'denied',
+        analytics_storage: 'denied',
+        ad_user_data: 'denied',
+        ad_personalization: 'denied',
+        ...options.googleConsentMode,
+      },
+      urlConfig: null,
+      webViewConfig: null,
+      attStatus: 0,
+    };
+  };
+
+  let state = initialState();
+  const pendingFailures = new Map<FakeMethodName, Error>();
+
+  // Every method starts here so `rejectNext` applies to all of them.
+  const takeFailure = (method: FakeMethodName) => {
+    const failure = pendingFailures.get(method);
+    if (failure) {
+      pendingFailures.delete(method);
+      throw failure;
+    }
+  };
+
+  const decide = (change: Partial<FakeCmSdkState>) => {
+    state = {
+      ...state,
+      ...change,
+      status: 'choiceExists',
+      consentRequired: false,
+    };
+  };
+
+  const applyDecision = (decision: FakeConsentDecision) => {
+    if (decision === 'acceptAll' || decision === 'rejectAll') {
+      const value = decision === 'acceptAll' ? 'granted' : 'denied';
+      decide({
+        vendors: mapIds(state.vendors, value),
+        purposes: mapIds(state.purposes, value),
+      });
+      return;
+    }
+    decide({
+      vendors: { ...state.vendors, ...decision.vendors },
+      purposes: { ...state.purposes, ...decision.purposes },
+      tcf: decision.tcf ?? state.tcf,
+      addtlConsent: decision.addtlConsent ?? state.addtlConsent,
+    });
+  };
+
+  const setIds = (
+    key: 'vendors' | 'purposes',
+    ids: string[],
+    value: ConsentStatusValue
+  ) => {
+    decide({
+      [key]: {
+        ...state[key],
+        ...Object.fromEntries(ids.map((id) => [id, value])),
+      },
+    });
+  };
+
+  const showLayer = () => {
+    if (state.layerVisible) return;
+    state = { ...state, layerVisible: true };
+    emit('didShowConsentLayer');
+  };
+
+  const closeLayer = () => {
+    if (!state.layerVisible) return;
+    state = { ...state, layerVisible: false };
+    emit('didCloseConsentLayer');
+  };
+
+  const userStatus = (): NativeUserStatus => ({
+    status: state.status,
+    hasUserChoice: state.status,
+    vendors: { ...state.vendors },
+    purposes: { ...state.purposes },
+    tcf: state.tcf,
+    addtlConsent: state.addtlConsent,
+    regulation: state.regulation,
+  });
+
+  return {
+    async setUrlConfig(config) {
+      takeFailure('setUrlConfig');
+      state = { ...state, urlConfig: { ...config } };
+    },
+    async setWebViewConfig(config) {
+      takeFailure('setWebViewConfig');
+      state = { ...state, webViewConfig: { ...config } };
+    },
+    async setATTStatus(status) {
+      takeFailure('setATTStatus');
+      state = { ...state, attStatus: status };
+    },
+    async checkAndOpen() {
+      takeFailure('checkAndOpen');
+      if (!state.consentRequired) return false;
+      showLayer();
+      return true;
+    },
+    async forceOpen() {
+      takeFailure('forceOpen');
+      showLayer();
+      return true;
+    },
+    async getUserStatus() {
+      takeFailure('getUserStatus');
+      return userStatus();
+    },
+    async isConsentRequired() {
+      takeFailure('isConsentRequired');
+      return state.consentRequired;
+    },
+    async getStatusForPurpose(purposeId) {
+      takeFailure('getStatusForPurpose');
+      return state.purposes[purposeId] ?? 'choiceDoesntExist';
+    },
+    async getStatusForVendor(vendorId) {
+      takeFailure('getStatusForVendor');
+      return state.vendors[vendorId] ?? 'choiceDoesntExist';
+    },
+    async getGoogleConsentModeStatus() {
+      takeFailure('getGoogleConsentModeStatus');
+      return { ...state.googleConsentMode };
+    },
+    async exportCMPInfo() {
+      takeFailure('exportCMPInfo');
+      const { status, vendors, purposes, regulation, tcf, addtlConsent } =
+        state;
+      return JSON.stringify({
+        status,
+        vendors,
+        purposes,
+        regulation,
+        tcf,
+        addtlConsent,
+      });
+    },
+    async importCMPInfo(cmpString) {
+      takeFailure('importCMPInfo');
+      let imported: Partial<FakeCmSdkState>;
+      try {
+        imported = JSON.parse(cmpString);
+      } catch {
+        throw nativeError(
+          'Import failed: not a string from exportCMPInfo',
+          'E_IMPORT_ERROR'
+        );
+      }
+      const status = imported.status ?? 'choiceDoesntExist';
+      state = {
+        ...state,
+        status,
+        vendors: { ...imported.vendors },
+        purposes: { ...imported.purposes },
+        regulation: imported.regulation ?? state.regulation,
+        tcf: imported.tcf ?? '',
+        addtlConsent: imported.addtlConsent ?? '',
+        consentRequired: status !== 'choiceExists',
+      };
+      return true;
+    },
+    async resetConsentManagementData() {
+      takeFailure('resetConsentManagementData');
+      state = {
+        ...state,
+        status: 'choiceDoesntExist',
+        vendors: mapIds(state.vendors, 'choiceDoesntExist'),
+        purposes: mapIds(state.purposes, 'choiceDoesntExist'),
+        tcf: '',
+        addtlConsent: '',
+        consentRequired: true,
+      };
+      return true;
+    },
+    async acceptVendors(vendors) {
+      takeFailure('acceptVendors');
+      setIds('vendors', vendors, 'granted');
+      return true;
+    },
+    async rejectVendors(vendors) {
+      takeFailure('rejectVendors');
+      setIds('vendors', vendors, 'denied');
+      return true;
+    },
+    async acceptPurposes(purposes) {
+      takeFailure('acceptPurposes');
+      setIds('purposes', purposes, 'granted');
+      return true;
+    },
+    async rejectPurposes(purposes) {
+      takeFailure('rejectPurposes');
+      setIds('purposes', purposes, 'denied');
+      return true;
+    },
+    async rejectAll() {
+      takeFailure('rejectAll');
+      applyDecision('rejectAll');
+      return true;
+    },
+    async acceptAll() {
+      takeFailure('acceptAll');
+      applyDecision('acceptAll');
+      return true;
+    },
+    async setAutomaticConsentUpdatesEnabled() {
+      takeFailure('setAutomaticConsentUpdatesEnabled');
+    },
+    async updateThirdPartyConsent(): Promise<ThirdPartyConsentStatus> {
+      takeFailure('updateThirdPartyConsent');
+      return {};
+    },
+    async configureAutomaticFirebaseConsentUpdates() {
+      takeFailure('configureAutomaticFirebaseConsentUpdates');
+    },
+    async setAutomaticFirebaseConsentUpdatesEnabled() {
+      takeFailure('setAutomaticFirebaseConsentUpdatesEnabled');
+    },
+    async isAutomaticFirebaseConsentUpdatesEnabled() {
+      takeFailure('isAutomaticFirebaseConsentUpdatesEnabled');
+      return false;
+    },
+    async updateFirebaseConsent() {
+      takeFailure('updateFirebaseConsent');
+      return false;
+    },
+    async isFirebaseAnalyticsAvailable() {
+      takeFailure('isFirebaseAnalyticsAvailable');
+      return false;
+    },
+    addListener() {},
+    removeListeners() {},
+
+    getState: () => ({
+      ...state,
+      vendors: { ...state.vendors },
+      purposes: { ...state.purposes },
+      googleConsentMode: { ...state.googleConsentMode },
+    }),
+    reset: () => {
+      state = initialState();
+      pendingFailures.clear();
+    },
+    rejectNext: (method, message, code = 'E_CONSENT_ERROR') => {
+      pendingFailures.set(method, nativeError(message, code));
+    },
+    simulateConsentReceived: (decision = 'acceptAll') => {
+      applyDecision(decision);
+      emit('didReceiveConsent', {
+        consent: state.tcf,
+        jsonObject: {
+          regulation: state.regulation,
+          vendors: { ...state.vendors },
+          purposes: { ...state.purposes },
+        },
+      });
+      closeLayer();
+    },
+    simulateError: (error) => {
+      emit('didReceiveError', { error });
+    },
+    simulateLayerShown: showLayer,
+    simulateLayerClosed: closeLayer,
+    simulateLinkClick: (url) => {
+      emit('onClickLink', { url });
+    },
+    simulateATTStatusChange: (newStatus) => {
+      const oldStatus = state.attStatus;
+      state = { ...state, attStatus: newStatus };
+      emit('didChangeATTStatus', {
+        oldStatus,
+        newStatus,
+        lastUpdated: Date.now(),
+      });
+    },
+  };
+};
+
+/**
+ * Returns the fake registered as the native module, i.e. the one the package
+ * wrappers are talking to.
+ *
+ * @throws Error if the registered module is not a fake
+ *
+ * @example
+ * ```typescript
+ * const cmp = getFakeCmSdk();
+ * cmp.simulateConsentReceived({ purposes: { c52: 'granted' } });
+ * ```
+ */
+export const getFakeCmSdk = (): FakeCmSdk => {
+  const module = TurboModuleRegistry.getEnforcing<Spec>(MODULE_NAME);
+  if (
+    typeof (module as Partial<FakeCmSdk>).simulateConsentReceived !== 'function'
+  ) {
+    throw new Error(
+      `[cm-sdk-react-native-v3-new-arch] ${MODULE_NAME} is not a fake. Register createFakeCmSdk() with TurboModuleRegistry first (see "Testing" in the README).`
+    );
+  }
+  return module as FakeCmSdk;
+};
@@ -0,0 +1,199 @@
+/**
+ * One flow for the App Tracking Transparency prompt and the consent layer.
+ *
+ * `setATTStatus` only forwards a number; the order of the two prompts is up to
+ * the app, and getting it wrong (e.g. the ATT prompt on top of the consent
+ * layer) is a common App Review rejection. `runTrackingConsentFlow` runs them
+ * one after the other in a fixed order and reports both outcomes.
+ */
+
+import { Platform } from 'react-native';
+import {
+  addATTStatusChangeListener,
+  addCloseConsentLayerListener,
+  addConsentListener,
+  addShowConsentLayerListener,
+  checkAndOpen,
+  getUserStatus,
+  resolveConsent,
+  setATTStatus,
+} from './core';
+import { CmpError } from './errors';
+import type { ATTStatus, UserStatus } from './NativeCmSdkReactNativeV3';
+import { withDeadline } from './retry';
+
+export type TrackingConsentFlowOptions = {
+  /**
+   * `cmpFirst` shows the consent layer (when needed) before the ATT prompt,
+   * `attFirst` the other way round.
+   */
+  order: 'cmpFirst' | 'attFirst';
+  /**
+   * Shows the system ATT prompt, e.g. through
+   * `react-native-tracking-transparency`, and resolves the resulting status.
+   * Not called on Android.
+   */
+  requestATT: () => Promise<ATTStatus | number>;
+  /** Open the consent layer on its settings page. Defaults to false. */
+  jumpToSettings?: boolean;
+  /**
+   * How long to wait for `didShowConsentLayer` once `checkAndOpen` resolved.
+   * `checkAndOpen` also resolves true when the CMP decided not to show the
+   * layer, so without the event the layer counts as not shown and the flow
+   * moves on. Defaults to 2000.
+   */
+  layerShowTimeoutMs?: number;
+  /**
+   * Rejects with `TIMEOUT` if the layer is still open after this long. No
+   * limit by default, since the user may take their time.
+   */
+  layerTimeoutMs?: number;
+};
+
+export type TrackingConsentFlowResult = {
+  att: {
+    /** True on Android, where there is no ATT prompt. */
+    skipped: boolean;
+    /**
+     * Status reported by the last `didChangeATTStatus` event during the flow,
+     * or the one `requestATT` resolved. Null when skipped.
+     */
+    status: ATTStatus | null;
+  };
+  consent: {
+    /** Whether the CMP asked for consent at the start of the flow. */
+    required: boolean;
+    layerShown: boolean;
+    /** Snapshot read after the layer closed. */
+    userStatus: UserStatus;
+  };
+};
+
+const runATTStep = async (
+  requestATT: TrackingConsentFlowOptions['requestATT']
+) => {
+  const status = await requestATT();
+  await setATTStatus(status);
+  return status as ATTStatus;
+};
+
+const DEFAULT_LAYER_SHOW_TIMEOUT_MS = 2000;
+
+const layerTimeoutError = (ms: number) =>
+  new CmpError(
+    'TIMEOUT',
+    `[cm-sdk-react-native-v3-new-arch] The consent layer was not closed within ${ms} ms.`,
+    { method: 'runTrackingConsentFlow' }
+  );
+
+const runConsentStep = async ({
+  jumpToSettings = false,
+  layerShowTimeoutMs = DEFAULT_LAYER_SHOW_TIMEOUT_MS,
+  layerTimeoutMs,
+}: TrackingConsentFlowOptions) => {
+  const { consentRequired } = await resolveConsent();
+  let layerShown = false;
+  if (consentRequired) {
+    // Subscribed before opening so a layer that shows and closes quickly is
+    // not missed. A closed layer was shown, even if that event was missed.
+    let markShown = () => {};
+    let markClosed = () => {};
+    const shown = new Promise<boolean>((resolve) => {
+      markShown = () => resolve(true);
+    });
+    const closed = new Promise<void>((resolve) => {
+      markClosed = () => {
+        markShown();
+        resolve();
+      };
+    });
+    const subscriptions = [
+      addShowConsentLayerListener(() => markShown()),
+      addCloseConsentLayerListener(() => markClosed()),
+      addConsentListener(() => markClosed()),
+    ];
+    let showTimer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      if (await checkAndOpen(jumpToSettings)) {
+        layerShown = await Promise.race([
+          shown,
+          new Promise<boolean>((resolve) => {
+            showTimer = setTimeout(() => resolve(false), layerShowTimeoutMs);
+          }),
+        ]);
+      }
+      if (layerShown) {
+        await (layerTimeoutMs === undefined
+          ? closed
+          : withDeadline(closed, layerTimeoutMs, () =>
+              layerTimeoutError(layerTimeoutMs)
+            ));
+      }
+    } finally {
+      clearTimeout(showTimer);
+      subscriptions.forEach((subscription) => subscription.remove());
+    }
+  }
+  return {
+    required: consentRequired,
+    layerShown,
+    userStatus: await getUserStatus(),
+  };
+};
+
+/**
+ * Runs the ATT prompt and the consent layer one after the other. The consent
+ * step resolves consent, opens the layer when the CMP asks for it and, once
+ * `didShowConsentLayer` confirmed it is shown, waits until it is closed. On
+ * Android the ATT step is skipped.
+ *
+ * @param options - Order, the ATT request and layer options
+ * @returns The ATT status and the consent outcome
+ *
+ * @example
+ * ```typescript
+ * import { requestTrackingPermission } from 'react-native-tracking-transparency';
+ *
+ * const { att, consent } = await runTrackingConsentFlow({
+ *   order: 'cmpFirst',
+ *   requestATT: async () => {
+ *     const status = await requestTrackingPermission();
+ *     return status === 'authorized' ? ATTStatus.Authorized : ATTStatus.Denied;
+ *   },
+ * });
+ * ```
+ */
+export const runTrackingConsentFlow = async (
+  options: TrackingConsentFlowOptions
+): Promise<TrackingConsentFlowResult> => {
+  if (Platform.OS !== 'ios') {
+    return {
+      att: { skipped: true, status: null },
+      consent: await runConsentStep(options),
+    };
+  }
+
+  // The native SDK reports the status it ends up with, which can differ from
+  // what `requestATT` resolved (e.g. restricted by device management).
+  let reported: ATTStatus | null = null;
+  const attSubscription = addATTStatusChangeListener(({ newStatus }) => {
+    reported = newStatus as ATTStatus;
+  });
+  try {
+    let requested: ATTStatus;
+    let consent: TrackingConsentFlowResult['consent'];
+    if (options.order === 'attFirst') {
+      requested = await runATTStep(options.requestATT);
+      consent = await runConsentStep(options);
+    } else {
+      consent = await runConsentStep(options);
+      requested = await runATTStep(options.requestATT);
+    }
+    return {
+      att: { skipped: false, status: reported ?? requested },
+      consent,
+    };
+  } finally {
+    attSubscription.remove();
+  }
+};
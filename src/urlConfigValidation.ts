@@ -0,0 +1,137 @@
+/**
+ * Validation of `UrlConfig` before it crosses the bridge.
+ *
+ * A typo in the URL config does not fail natively; it shows up later as a blank
+ * WebView or a timeout. `setUrlConfig` runs these checks first and rejects with
+ * every problem at once.
+ */
+
+import type { UrlConfig } from './NativeCmSdkReactNativeV3';
+import { CmpError, type ValidationIssue } from './errors';
+import { FORCEABLE_REGULATIONS, normalizeRegulation } from './regulation';
+
+// ISO 639-1 two-letter language codes.
+const LANGUAGE_CODES = new Set(
+  (
+    'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ' +
+    'ch co cr cs cu cv cy da de dv dz ee el en eo es et eu fa ff fi fj fo fr ' +
+    'fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is ' +
+    'it iu ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky la lb lg li ln ' +
+    'lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ' +
+    'ny oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk ' +
+    'sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ' +
+    'ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+  ).split(' ')
+);
+
+// Code-IDs are the alphanumeric ids shown in the consentmanager dashboard.
+const CODE_ID = /^[a-z0-9]+$/i;
+const HOSTNAME =
+  /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+const domainProblem = (domain: unknown): string | null => {
+  if (typeof domain !== 'string' || domain === '') {
+    return 'must be a non-empty hostname';
+  }
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(domain)) {
+    return `must be a hostname without a scheme, e.g. "${domain.replace(/^[^:]*:\/\//, '').split('/')[0]}"`;
+  }
+  if (!HOSTNAME.test(domain)) {
+    return `"${domain}" is not a hostname (no path, port or spaces allowed)`;
+  }
+  return null;
+};
+
+/**
+ * Checks a `UrlConfig` without calling native. `setUrlConfig` does this for
+ * you and rejects with `INVALID_ARGUMENT`; call it directly to validate
+ * configuration loaded from a remote source.
+ *
+ * @param config - URL configuration to check
+ * @returns Every problem found; empty when the config is valid
+ *
+ * @example
+ * ```typescript
+ * const issues = validateUrlConfig(remoteConfig);
+ * if (issues.length > 0) {
+ *   report(issues.map((issue) => `${issue.field}: ${issue.message}`));
+ * }
+ * ```
+ */
+export const validateUrlConfig = (config: UrlConfig): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (field: keyof UrlConfig, message: string) =>
+    issues.push({ field, message });
+
+  if (typeof config.id !== 'string' || config.id.trim() === '') {
+    add('id', 'must be a non-empty code-id');
+  } else if (!CODE_ID.test(config.id)) {
+    add('id', `"${config.id}" is not a code-id (letters and digits only)`);
+  }
+
+  const domain = domainProblem(config.domain);
+  if (domain) add('domain', domain);
+
+  if (
+    typeof config.language !== 'string' ||
+    !LANGUAGE_CODES.has(config.language.toLowerCase())
+  ) {
+    add(
+      'language',
+      `"${config.language}" is not an ISO 639-1 language code, e.g. "EN"`
+    );
+  }
+
+  const timeout = config.webViewConnectionTimeoutMillis;
+  if (
+    timeout !== undefined &&
+    !(Number.isInteger(timeout) && (timeout as number) >= 0)
+  ) {
+    add(
+      'webViewConnectionTimeoutMillis',
+      `must be a non-negative integer, got ${timeout}`
+    );
+  }
+
+  // Native passes the value through as given, so any spelling
+  // `normalizeRegulation` recognizes (e.g. "gdpr") is accepted.
+  const regulation = config.forceRegulation;
+  if (
+    regulation !== undefined &&
+    !(FORCEABLE_REGULATIONS as readonly string[]).includes(
+      normalizeRegulation(regulation)
+    )
+  ) {
+    add(
+      'forceRegulation',
+      `"${regulation}" is not one of ${FORCEABLE_REGULATIONS.join(', ')}`
+    );
+  }
+
+  if (config.jsonConfig !== undefined) {
+    try {
+      JSON.parse(config.jsonConfig);
+    } catch {
+      add('jsonConfig', 'must be valid JSON');
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Throws the `INVALID_ARGUMENT` error `setUrlConfig` and `initialize` reject
+ * with when `validateUrlConfig` finds problems. Not part of the public API.
+ */
+export const assertValidUrlConfig = (config: UrlConfig): void => {
+  const issues = validateUrlConfig(config);
+  if (issues.length > 0) {
+    throw new CmpError(
+      'INVALID_ARGUMENT',
+      `Invalid UrlConfig: ${issues
+        .map((issue) => `${issue.field} ${issue.message}`)
+        .join('; ')}`,
+      { method: 'setUrlConfig', issues }
+    );
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * Named WebView appearance presets.
+ *
+ * Ships `bottomSheet`, `fullscreenModal` and `centeredCard`. Teams register
+ * their own (or replace a built-in one) once and apply them by name, so the
+ * consent layer looks the same on every screen that opens it.
+ */
+
+import { Dimensions } from 'react-native';
+import {
+  BackgroundStyle,
+  setWebViewConfig,
+  WebViewPosition,
+  type WebViewConfig,
+} from './core';
+import { centeredCardRect } from './centeredCard';
+import { CmpError } from './errors';
+
+/**
+ * A preset is a config, or a function returning one when it is applied (for
+ * layouts that depend on the screen size).
+ */
+export type WebViewPreset = WebViewConfig | (() => WebViewConfig);
+
+/** Built-in preset names; any registered name works as well. */
+export type WebViewPresetName =
+  'bottomSheet' | 'fullscreenModal' | 'centeredCard' | (string & {});
+
+const centeredCard = (): WebViewConfig => {
+  const { width, height } = Dimensions.get('window');
+  return {
+    position: WebViewPosition.Custom,
+    customRect: centeredCardRect(width, height),
+    cornerRadius: 16,
+    backgroundStyle: BackgroundStyle.dimmed('black', 0.6),
+  };
+};
+
+const presets = new Map<string, WebViewPreset>([
+  [
+    'bottomSheet',
+    {
+      position: WebViewPosition.HalfScreenBottom,
+      cornerRadius: 20,
+      respectsSafeArea: true,
+      backgroundStyle: BackgroundStyle.dimmed('black', 0.5),
+    },
+  ],
+  [
+    'fullscreenModal',
+    {
+      position: WebViewPosition.FullScreen,
+      cornerRadius: 0,
+      respectsSafeArea: true,
+      backgroundStyle: BackgroundStyle.none(),
+    },
+  ],
+  ['centeredCard', centeredCard],
+]);
+
+/**
+ * Registers a preset, or replaces the one with the same name.
+ *
+ * @param name - Name to apply it by
+ * @param preset - Config, or a function building it at apply time
+ *
+ * @example
+ * ```typescript
+ * registerWebViewPreset('brandSheet', {
+ *   position: WebViewPosition.HalfScreenBottom,
+ *   cornerRadius: 28,
+ *   backgroundStyle: BackgroundStyle.color('#0B1F3A'),
+ * });
+ * ```
+ */
+export const registerWebViewPreset = (
+  name: string,
+  preset: WebViewPreset
+): void => {
+  presets.set(name, preset);
+};
+
+/**
+ * Names of all registered presets, built-in ones included.
+ */
+export const getWebViewPresetNames = (): string[] => [...presets.keys()];
+
+/**
+ * Resolves a preset to the config it stands for.
+ *
+ * @param name - Registered preset name
+ * @returns The config, or null if no preset has that name
+ */
+export const getWebViewPreset = (
+  name: WebViewPresetName
+): WebViewConfig | null => {
+  const preset = presets.get(name);
+  if (!preset) return null;
+  return typeof preset === 'function' ? preset() : { ...preset };
+};
+
+/**
+ * Applies a preset with `setWebViewConfig`, optionally adjusted by `overrides`.
+ *
+ * @param name - Registered preset name
+ * @param overrides - Fields to change on top of the preset
+ * @returns Promise that resolves when the config is applied
+ * @throws CmpError (`INVALID_ARGUMENT`) if no preset has that name
+ *
+ * @example
+ * ```typescript
+ * await applyWebViewPreset('bottomSheet', { darkMode: true });
+ * ```
+ */
+export const applyWebViewPreset = async (
+  name: WebViewPresetName,
+  overrides: Partial<WebViewConfig> = {}
+): Promise<void> => {
+  const config = getWebViewPreset(name);
+  if (!config) {
+    throw new CmpError(
+      'INVALID_ARGUMENT',
+      `Unknown WebView preset: ${name}. Registered: ${getWebViewPresetNames().join(', ')}`,
+      { method: 'applyWebViewPreset' }
+    );
+  }
+  return setWebViewConfig({ ...config, ...overrides });
+};